@@ -0,0 +1,131 @@
+import { Avm, Feature } from './tree';
+import { RenderConfig } from './config';
+import { Measurer } from './measure';
+
+/**
+ * Text of a matrix: a feature's name or atomic value, or the number of a tag.
+ * Tags are centered on `x`, and the rest starts there. All text hangs from
+ * `y`.
+ */
+type AvmText = {
+  x: number;
+  y: number;
+  text: string;
+  kind: 'attr' | 'value' | 'tag';
+};
+
+/**
+ * One side of a matrix's brackets, running down from `y` at `x`.
+ */
+type AvmBracket = {
+  x: number;
+  y: number;
+  height: number;
+  side: 'left' | 'right';
+};
+
+/**
+ * Everything drawn for a matrix, relative to its top left corner: its text,
+ * its brackets and those of any nested matrices, and the boxes around tags.
+ */
+type AvmLayout = {
+  width: number;
+  height: number;
+  texts: AvmText[];
+  brackets: AvmBracket[];
+  boxes: { x: number; y: number; width: number; height: number }[];
+};
+
+/**
+ * Lays out a feature structure, as a matrix with a row for each feature. The
+ * names of features are aligned in a column, with their values beside them.
+ * Text is set at the leaf data font size, and spacing is in proportion to it.
+ *
+ * @param avm
+ * @param style
+ * @param measurer Text measurement backend.
+ * @returns Where each part of the matrix is drawn, and its size.
+ */
+function layoutAvm(
+  avm: Avm,
+  style: RenderConfig['style'],
+  measurer: Measurer
+): AvmLayout {
+  const size = style.fontSize.nodeData;
+  const family = style.fontFamily;
+  const line = measurer.height(size, family);
+  // Inside each bracket, between names and values, and after tags.
+  const pad = 0.4 * size;
+  const column = 0.6 * size;
+  const afterTag = 0.3 * size;
+
+  const out: AvmLayout = {
+    width: 0,
+    height: 0,
+    texts: [],
+    brackets: [],
+    boxes: [],
+  };
+  [out.width, out.height] = matrix(avm, 0, 0);
+  return out;
+
+  function width(text: string) {
+    return measurer.width(text, size, family);
+  }
+
+  /**
+   * Lays out `m` with its top left corner at `x`, `y`.
+   *
+   * @returns `[width, height]` of the matrix.
+   */
+  function matrix(m: Avm, x: number, y: number): [number, number] {
+    const names = m.features.reduce((w, f) => Math.max(w, width(f.name)), 0);
+    let values = 0;
+    let bottom = y;
+    m.features.forEach((f) => {
+      out.texts.push({ x: x + pad, y: bottom, text: f.name, kind: 'attr' });
+      const [w, h] = value(f, x + pad + names + column, bottom);
+      values = Math.max(values, w);
+      bottom += Math.max(line, h);
+    });
+
+    const w = 2 * pad + (m.features.length > 0 ? names + column + values : 0);
+    const h = Math.max(line, bottom - y);
+    out.brackets.push(
+      { x: x, y: y, height: h, side: 'left' },
+      { x: x + w, y: y, height: h, side: 'right' }
+    );
+    return [w, h];
+  }
+
+  function value(f: Feature, x: number, y: number): [number, number] {
+    let w = 0;
+    let h = line;
+    if (f.tag !== undefined) {
+      const box = Math.max(line, width(f.tag) + afterTag);
+      out.boxes.push({ x: x, y: y, width: box, height: line });
+      out.texts.push({ x: x + box / 2, y: y, text: f.tag, kind: 'tag' });
+      w = box + (f.value !== undefined ? afterTag : 0);
+    }
+    if (typeof f.value === 'string') {
+      out.texts.push({ x: x + w, y: y, text: f.value, kind: 'value' });
+      w += width(f.value);
+    } else if (f.value) {
+      const [mw, mh] = matrix(f.value, x + w, y);
+      w += mw;
+      h = Math.max(h, mh);
+    }
+    return [w, h];
+  }
+}
+
+/**
+ * Path drawing one side of a bracket, with arms a quarter of the leaf data
+ * font size long.
+ */
+function bracketPath(b: AvmBracket, style: RenderConfig['style']): string {
+  const arm = (b.side === 'left' ? 0.25 : -0.25) * style.fontSize.nodeData;
+  return `M ${b.x + arm} ${b.y} H ${b.x} V ${b.y + b.height} H ${b.x + arm}`;
+}
+
+export { AvmLayout, layoutAvm, bracketPath };
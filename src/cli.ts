@@ -0,0 +1,267 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from './parser';
+import { ParseError } from './error';
+import { RenderOptions } from './config';
+import { renderToString } from './svg';
+
+/**
+ * Streams the command line talks to, so that it may be run other than as a
+ * process.
+ */
+type CliIO = {
+  stdin: () => Promise<string>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+type CliOptions = {
+  files: string[];
+  outDir?: string;
+  config?: string;
+  check: boolean;
+  help: boolean;
+};
+
+/**
+ * A file to be rendered, and the directory its output path is kept relative
+ * to. Files read from stdin are named `-`.
+ */
+type Input = { file: string; base: string };
+
+const usage = `Usage: chomtree [options] [files...]
+
+Renders chomTree markup files as standalone SVG files, each written beside its
+markup with an .svg extension. Files may be given as globs, such as
+'figures/**/*.tree', which never match .svg files. With no files, or '-', markup is read from stdin and its
+SVG written to stdout.
+
+Options:
+  -o, --out-dir <dir>   Write SVG files to <dir>, keeping their paths relative
+                        to the directory each glob starts from.
+  -c, --config <file>   Read render options from a JSON file.
+      --check           Only parse the markup, reporting any errors.
+  -h, --help            Show this message.
+`;
+
+let stdin: Promise<string> | undefined;
+
+const processIO: CliIO = {
+  // Stdin may only be read once, even if given as more than one file.
+  stdin: () =>
+    (stdin =
+      stdin ??
+      new Promise((resolve, reject) => {
+        let text = '';
+        process.stdin.setEncoding('utf8');
+        process.stdin.on('data', (chunk) => (text += chunk));
+        process.stdin.on('end', () => resolve(text));
+        process.stdin.on('error', reject);
+      })),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+/**
+ * Runs the `chomtree` command. Errors in markup are reported as
+ * `file:line:column: reason`, followed by an excerpt of the line. Files with
+ * errors are not rendered, but the remaining files still are.
+ *
+ * @param args Command line arguments, without the node and script paths.
+ * @param io
+ * @returns Exit code: 0 on success, 1 if any markup has errors or a file can
+ *   not be read or written, and 2 for invalid usage.
+ */
+async function main(args: string[], io: CliIO = processIO): Promise<number> {
+  let opts: CliOptions;
+  let options: RenderOptions = {};
+  try {
+    opts = parseArgs(args);
+    if (opts.config !== undefined) {
+      options = JSON.parse(fs.readFileSync(opts.config, 'utf8'));
+    }
+  } catch (err) {
+    io.stderr(`chomtree: ${(err as Error).message}\n\n${usage}`);
+    return 2;
+  }
+  if (opts.help) {
+    io.stdout(usage);
+    return 0;
+  }
+
+  let failed = false;
+  const inputs: Input[] = [];
+  (opts.files.length > 0 ? opts.files : ['-']).forEach((pattern) => {
+    const found = expand(pattern);
+    if (found.length === 0) {
+      io.stderr(`chomtree: No files match '${pattern}'\n`);
+      failed = true;
+    }
+    found.forEach((input) => inputs.push(input));
+  });
+
+  const files = inputs.map((input) => path.resolve(input.file));
+  for (const input of inputs) {
+    const name = input.file === '-' ? '<stdin>' : input.file;
+    try {
+      const markup =
+        input.file === '-'
+          ? await io.stdin()
+          : fs.readFileSync(input.file, 'utf8');
+      const { tree, diagnostics } = parse(markup, { recover: true });
+      diagnostics.forEach((d) => io.stderr(report(name, d)));
+      if (diagnostics.length > 0) {
+        failed = true;
+        continue;
+      }
+      if (opts.check) {
+        continue;
+      }
+
+      const svg = renderToString(tree, options);
+      if (input.file === '-') {
+        io.stdout(svg + '\n');
+      } else {
+        const out = outputPath(input, opts.outDir);
+        if (files.indexOf(path.resolve(out)) >= 0) {
+          throw new Error(`Output '${out}' would overwrite an input`);
+        }
+        fs.mkdirSync(path.dirname(out), { recursive: true });
+        fs.writeFileSync(out, svg + '\n');
+      }
+    } catch (err) {
+      io.stderr(`${name}: ${(err as Error).message}\n`);
+      failed = true;
+    }
+  }
+  return failed ? 1 : 0;
+}
+
+/**
+ * @throws {Error} If an option is unknown, or is missing its value.
+ */
+function parseArgs(args: string[]): CliOptions {
+  const opts: CliOptions = { files: [], check: false, help: false };
+  let i = 0;
+  for (; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '-o':
+      case '--out-dir':
+        opts.outDir = value();
+        break;
+      case '-c':
+      case '--config':
+        opts.config = value();
+        break;
+      case '--check':
+        opts.check = true;
+        break;
+      case '-h':
+      case '--help':
+        opts.help = true;
+        break;
+      default:
+        if (arg.charAt(0) === '-' && arg !== '-') {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        opts.files.push(arg);
+    }
+  }
+  return opts;
+
+  /**
+   * Takes the argument after the current option as its value.
+   */
+  function value() {
+    if (i + 1 >= args.length) {
+      throw new Error(`Missing value for '${args[i]}'`);
+    }
+    return args[++i];
+  }
+}
+
+function report(name: string, err: ParseError) {
+  return `${name}:${err.line}:${err.column}: ${err.reason}\n${err.snippet}\n`;
+}
+
+/**
+ * Path of the SVG for `input`: beside it, or under `outDir` at the same path
+ * relative to its base.
+ */
+function outputPath(input: Input, outDir?: string) {
+  const ext = path.extname(input.file);
+  const svg = input.file.slice(0, input.file.length - ext.length) + '.svg';
+  return outDir === undefined
+    ? svg
+    : path.join(outDir, path.relative(input.base, svg));
+}
+
+/**
+ * Finds the files matching a glob. In globs, `*` matches any part of a name,
+ * `?` any one character, and `**` any number of directories. SVG files, such
+ * as those written by an earlier run, are never matched. Paths without any of
+ * these are taken as they are, whether or not they exist.
+ *
+ * @param pattern
+ * @returns Matching files in sorted order, each with the directory the glob
+ *   starts from as its base.
+ */
+function expand(pattern: string): Input[] {
+  const parts = pattern.split(/[\\/]/);
+  const magic = parts.map((p) => /[*?]/.test(p)).indexOf(true);
+  if (magic < 0) {
+    return [{ file: pattern, base: path.dirname(pattern) }];
+  }
+
+  const base = parts.slice(0, magic).join('/') || '.';
+  const re = new RegExp(
+    '^' +
+      parts
+        .slice(magic)
+        .join('/')
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*\*\/|\*\*|\*|\?/g, (m) => {
+          switch (m) {
+            case '**/':
+              return '(?:[^/]*/)*';
+            case '**':
+              return '.*';
+            case '*':
+              return '[^/]*';
+            default:
+              return '[^/]';
+          }
+        }) +
+      '$'
+  );
+
+  const found: Input[] = [];
+  walk('');
+  return found.sort((a, b) => (a.file < b.file ? -1 : 1));
+
+  function walk(dir: string) {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(base, dir), { withFileTypes: true });
+    } catch (err) {
+      return;
+    }
+    entries.forEach((e) => {
+      const rel = dir ? dir + '/' + e.name : e.name;
+      if (e.isDirectory()) {
+        walk(rel);
+      } else if (re.test(rel) && path.extname(rel).toLowerCase() !== '.svg') {
+        found.push({ file: path.join(base, rel), base: base });
+      }
+    });
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
+
+export { CliIO, main };
@@ -0,0 +1,175 @@
+const defaultSpacing = {
+  /**
+   * Individual node padding (always centered).
+   */
+  padding: {
+    x: 0.0,
+    y: 0.25,
+  },
+  /**
+   * Individual node margin (always centered).
+   */
+  margin: {
+    x: 0.75,
+    y: 1,
+  },
+  /**
+   * Line Spacing within a node.
+   */
+  lineSpacing: 1.2,
+  /**
+   * How far movement arrows dip below the lowest node they pass under, and
+   * the extra distance between each further arrow.
+   */
+  arrow: {
+    depth: 0.75,
+    gap: 0.5,
+  },
+};
+
+const defaultStyle = {
+  strokeWidth: 0.05,
+  /**
+   * Font sizes, in units of the node type font size.
+   */
+  fontSize: {
+    nodeType: 1,
+    nodeData: 0.9,
+    script: 0.9,
+  },
+  /**
+   * Font family for all text. When `null`, the font is inherited from the
+   * page.
+   */
+  fontFamily: null as string | null,
+  /**
+   * Colours may be any CSS colour. `currentColor` follows the page's text
+   * colour.
+   */
+  color: {
+    text: 'currentColor',
+    link: 'currentColor',
+    arrow: 'currentColor',
+  },
+  /**
+   * Whether to emit the `mBox`, `pBox` and `cBox` rects of each node. These
+   * are useful for debugging layout, or styling node backgrounds.
+   */
+  boxes: true,
+  /**
+   * Largest size of one unit, in pixels, the SVG may be scaled to. When `null`,
+   * the font size of the containing element is used.
+   */
+  maxScale: null as number | null,
+};
+
+const defaultLayout = {
+  /**
+   * Direction in which the tree grows from its root: `'top-down'`, or
+   * `'left-right'` with the root at the left and each level to the right of
+   * its parent.
+   */
+  orientation: 'top-down' as 'top-down' | 'left-right',
+  /**
+   * Whether to place all terminal nodes on a common bottom (or, left to
+   * right, rightmost) level, stretching the branches down to them.
+   */
+  alignTerminals: false,
+  /**
+   * Whether neighbouring subtrees may overlap their margins, packing them as
+   * closely as their padded boxes permit.
+   */
+  compact: false,
+};
+
+const defaultTransition = {
+  /**
+   * Length, in milliseconds, of the animation from one tree to the next when
+   * an SVG is re-rendered in place.
+   */
+  duration: 250,
+  /**
+   * Delay, in milliseconds, before the animation starts.
+   */
+  delay: 0,
+  /**
+   * Easing of the animation, mapping time to progress (both from 0 to 1).
+   * When `null`, d3's default cubic easing is used.
+   */
+  ease: null as ((t: number) => number) | null,
+};
+
+const defaultInteraction = {
+  /**
+   * Whether phrase nodes may be folded into a triangle over their yield, and
+   * unfolded again, by clicking them, or by pressing Enter or Space while they
+   * have focus. Only used by `render`.
+   */
+  collapse: false,
+};
+
+/**
+ * Full rendering configuration. Spacing values are in units of the node type
+ * font size.
+ */
+type RenderConfig = {
+  spacing: typeof defaultSpacing;
+  style: typeof defaultStyle;
+  layout: typeof defaultLayout;
+  transition: typeof defaultTransition;
+  interaction: typeof defaultInteraction;
+};
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Record<string, unknown>
+    ? DeepPartial<T[K]>
+    : T[K];
+};
+
+/**
+ * Options accepted by `render`. Any option left out takes its default value.
+ */
+type RenderOptions = DeepPartial<RenderConfig>;
+
+const defaultConfig: RenderConfig = {
+  spacing: defaultSpacing,
+  style: defaultStyle,
+  layout: defaultLayout,
+  transition: defaultTransition,
+  interaction: defaultInteraction,
+};
+
+/**
+ * Deep-merges `options` over the default configuration. Neither argument is
+ * modified.
+ *
+ * @param options
+ * @returns Complete configuration.
+ */
+function makeConfig(options: RenderOptions = {}): RenderConfig {
+  return merge(defaultConfig, options);
+}
+
+function merge<T>(base: T, over: DeepPartial<T> | undefined): T {
+  if (over === undefined) {
+    return base;
+  }
+  const merged = { ...base };
+  (Object.keys(over) as (keyof T)[]).forEach((key) => {
+    const b = base[key];
+    const o = over[key];
+    if (o === undefined) {
+      return;
+    }
+    merged[key] = (isObject(b) && isObject(o)
+      ? merge(b, o as DeepPartial<typeof b>)
+      : o) as T[keyof T];
+  });
+  return merged;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+export { RenderConfig, RenderOptions, DeepPartial, makeConfig };
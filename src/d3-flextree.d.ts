@@ -113,8 +113,13 @@ declare module 'd3-flextree' {
      * d3.hierarchy.
      *
      * @param data The data to be laid out.
+     * @param children Accessor of each datum's children, in place of the
+     *   layout's own.
      */
-    hierarchy(data: Datum): FlexHierarchy<Datum>;
+    hierarchy(
+      data: Datum,
+      children?: (d: Datum) => Datum[] | null | undefined
+    ): FlexHierarchy<Datum>;
   }
 
   export function flextree<Datum>(): FlexTreeLayout<Datum>;
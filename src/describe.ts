@@ -0,0 +1,120 @@
+import { Tree, Avm } from './tree';
+import { Hierarchy } from './layout';
+
+/**
+ * Node type of `tree` as written in markup, e.g. `NP_i^wh`.
+ */
+function typeName(tree: Tree): string {
+  const nt = tree.nodeType;
+  if (!nt) {
+    return '';
+  }
+  if (nt.features) {
+    return avmText(nt.features);
+  }
+  return nt.name + (nt.sub ? '_' + nt.sub : '') + (nt.sup ? '^' + nt.sup : '');
+}
+
+/**
+ * A feature structure as text, e.g. `[CAT noun, AGR #1 [NUM sg]]`.
+ */
+function avmText(avm: Avm): string {
+  const features = avm.features.map((f) =>
+    [
+      f.name,
+      f.tag !== undefined ? '#' + f.tag : '',
+      typeof f.value === 'object' ? avmText(f.value) : f.value ?? '',
+    ]
+      .filter((p) => p !== '')
+      .join(' ')
+  );
+  return '[' + features.join(', ') + ']';
+}
+
+/**
+ * Text read out for a node: its node type, then its data and any glosses,
+ * e.g. `N, perro, dog`.
+ */
+function nodeLabel(tree: Tree): string {
+  const parts = [typeName(tree)];
+  if (tree.leaf) {
+    parts.push(tree.leaf.data.trim());
+    (tree.leaf.glosses ?? []).forEach((g) => parts.push(g.data.trim()));
+  }
+  return parts.filter((p) => p !== '').join(', ');
+}
+
+/**
+ * Labelled bracketing of `tree`, such as `[S [NP [D the] [N dog]] [VP barked]]`.
+ * Unlike `stringify`, this is plain text for people to read, so ids, arrows,
+ * classes and formatting are left out.
+ *
+ * @param tree
+ * @returns Text description of the tree.
+ */
+function bracketing(tree: Tree): string {
+  const parts = [typeName(tree)];
+  if (tree.leaf) {
+    parts.push(tree.leaf.data.trim());
+  }
+  tree.children.forEach((c) => parts.push(bracketing(c)));
+  const inner = parts.filter((p) => p !== '').join(' ');
+  return tree.nodeType ? `[${inner}]` : inner;
+}
+
+/**
+ * Data of every leaf under `tree`, in order, leaving out empty (∅) data.
+ */
+function yieldOf(tree: Tree): string[] {
+  if (tree.leaf) {
+    return tree.leaf.data === '∅' ? [] : [tree.leaf.data];
+  }
+  return tree.children.reduce(
+    (words, c) => words.concat(yieldOf(c)),
+    [] as string[]
+  );
+}
+
+/**
+ * Text of an SVG's `<title>`: the words of the tree.
+ */
+function title(tree: Tree): string {
+  const words = yieldOf(tree).join(' ').trim();
+  return words ? `Syntax tree: ${words}` : 'Syntax tree';
+}
+
+/**
+ * Text of an SVG's `<desc>`: the labelled bracketing of the tree, followed by
+ * its translation on a line of its own.
+ */
+function description(tree: Tree): string {
+  const translation = tree.translation?.data.trim();
+  return bracketing(tree) + (translation ? '\n' + translation : '');
+}
+
+/**
+ * ARIA attributes of a node's element, as an item of a `tree`. The items are
+ * not nested in the SVG, so their place in the tree is given by their level,
+ * and position among their siblings. Attributes which are `null` are left out.
+ */
+function treeItemAttrs(n: Hierarchy): { [name: string]: string | null } {
+  const siblings = n.parent?.children ?? [n];
+  return {
+    role: 'treeitem',
+    'aria-level': String(n.depth + 1),
+    'aria-setsize': String(siblings.length),
+    'aria-posinset': String(siblings.indexOf(n) + 1),
+    'aria-expanded': n.children ? 'true' : null,
+    'aria-label': nodeLabel(n.data),
+  };
+}
+
+export {
+  typeName,
+  nodeLabel,
+  bracketing,
+  yieldOf,
+  title,
+  description,
+  treeItemAttrs,
+};
@@ -0,0 +1,367 @@
+import { Tree } from './tree';
+import { descendants } from './query';
+import { typeName } from './describe';
+
+type DiffKind = 'inserted' | 'deleted' | 'relabeled' | 'moved';
+
+/**
+ * A difference between two trees. `a` is the node of the first tree and `b`
+ * that of the second: inserted nodes only have `b`, deleted nodes only `a`,
+ * and relabeled or moved nodes have both. A node may be both relabeled and
+ * moved.
+ */
+type Change = { kind: DiffKind; a?: Tree; b?: Tree };
+
+/**
+ * Result of `diffTrees`: the changes from the first tree to the second, and
+ * every pair of nodes found to be the same constituent.
+ */
+type TreeDiff = { changes: Change[]; matches: { a: Tree; b: Tree }[] };
+
+/**
+ * Aligns two trees, such as a student's tree and an answer key, and finds how
+ * the first differs from the second.
+ *
+ * Terminals are aligned by their data, keeping the words of both in order
+ * where they can, and preferring terminals with the same node type. Words
+ * found elsewhere in the sentence are moved, and otherwise unaligned words
+ * between the same aligned words are taken to have been changed. Other nodes
+ * sharing aligned terminals are aligned, identical subtrees first, then nodes
+ * of the same type, then any others of which at least half of the aligned
+ * terminals are the same. Among these, those sharing the most are preferred,
+ * top-down.
+ *
+ * Aligned nodes are relabeled if their node type (including scripts and
+ * features) or leaf data differs, and moved if their nearest aligned
+ * ancestors are not aligned with each other. Nodes left over are deleted from
+ * the first tree, or inserted into the second.
+ *
+ * @param a
+ * @param b
+ * @returns Changes in pre-order: deletions in `a`, then the rest in `b`.
+ */
+function diffTrees(a: Tree, b: Tree): TreeDiff {
+  const nodesA = descendants(a);
+  const nodesB = descendants(b);
+  const toB: (Tree | undefined)[] = nodesA.map(() => undefined);
+  const toA: (Tree | undefined)[] = nodesB.map(() => undefined);
+  const moved: Tree[] = [];
+
+  const pair = (x: Tree, y: Tree) => {
+    toB[nodesA.indexOf(x)] = y;
+    toA[nodesB.indexOf(y)] = x;
+  };
+  const matchA = (x: Tree) => toB[nodesA.indexOf(x)];
+  const matchB = (y: Tree) => toA[nodesB.indexOf(y)];
+
+  alignTerminals();
+  alignPhrases();
+
+  const changes: Change[] = [];
+  nodesA.forEach((x) => {
+    if (!matchA(x)) {
+      changes.push({ kind: 'deleted', a: x });
+    }
+  });
+  const matches: TreeDiff['matches'] = [];
+  nodesB.forEach((y) => {
+    const x = matchB(y);
+    if (!x) {
+      changes.push({ kind: 'inserted', b: y });
+      return;
+    }
+    matches.push({ a: x, b: y });
+    if (label(x) !== label(y)) {
+      changes.push({ kind: 'relabeled', a: x, b: y });
+    }
+    const above = alignedAncestor(nodesA, x, matchA);
+    const aboveB = alignedAncestor(nodesB, y, matchB);
+    if (moved.indexOf(x) >= 0 || (above && matchA(above) !== aboveB)) {
+      changes.push({ kind: 'moved', a: x, b: y });
+    }
+  });
+  return { changes: changes, matches: matches };
+
+  function alignTerminals() {
+    const termsA = nodesA.filter((n) => n.children.length === 0);
+    const termsB = nodesB.filter((n) => n.children.length === 0);
+    const words = (n: Tree) => n.leaf?.data.trim() ?? '';
+
+    // A terminal of the same type outweighs two of other types.
+    const weight = (x: Tree, y: Tree) =>
+      words(x) !== words(y) ? 0 : label(x) === label(y) ? 3 : 1;
+    lcs(termsA, termsB, weight).forEach(([i, j]) => {
+      pair(termsA[i], termsB[j]);
+    });
+
+    // Words which are out of order were moved.
+    termsA.forEach((x) => {
+      const ys = termsB.filter(
+        (t) => !matchB(t) && words(t) !== '' && words(t) === words(x)
+      );
+      const y = ys.filter((t) => label(t) === label(x))[0] ?? ys[0];
+      if (!matchA(x) && y) {
+        pair(x, y);
+        moved.push(x);
+      }
+    });
+
+    // Words left between the same aligned words were changed.
+    termsA.forEach((x, i) => {
+      if (matchA(x)) {
+        return;
+      }
+      const before = termsA.slice(0, i).filter((t) => matchA(t));
+      const after = termsA.slice(i + 1).filter((t) => matchA(t));
+      const lo = before.length
+        ? termsB.indexOf(matchA(before[before.length - 1]) as Tree)
+        : -1;
+      const hi = after.length
+        ? termsB.indexOf(matchA(after[0]) as Tree)
+        : termsB.length;
+      const y = termsB
+        .slice(lo + 1, Math.max(lo + 1, hi))
+        .filter((t) => !matchB(t))[0];
+      if (y) {
+        pair(x, y);
+      }
+    });
+  }
+
+  function alignPhrases() {
+    const termsB = nodesB.filter((n) => n.children.length === 0);
+    const yieldIn = (n: Tree, toTerminal: (t: Tree) => Tree | undefined) =>
+      descendants(n)
+        .filter((t) => t.children.length === 0)
+        .map((t) => termsB.indexOf(toTerminal(t) as Tree))
+        .filter((j) => j >= 0);
+    const phrasesB = nodesB
+      .filter((y) => y.children.length > 0)
+      .map((y) => ({
+        node: y,
+        terms: yieldIn(y, (t) => (matchB(t) ? t : undefined)),
+      }));
+
+    // Candidates share aligned terminals, and are identical subtrees, have
+    // the same label, or share at least half of their aligned terminals. The
+    // best are identical, then have the same label, then share the most, then
+    // have the same name; ties are broken top-down, by the stable sort.
+    const candidates: { x: Tree; y: Tree; score: number[] }[] = [];
+    nodesA
+      .filter((x) => x.children.length > 0)
+      .forEach((x) => {
+        const terms = yieldIn(x, matchA);
+        phrasesB.forEach(({ node: y, terms: termsY }) => {
+          const shared = terms.filter((j) => termsY.indexOf(j) >= 0).length;
+          const overlap = shared / (terms.length + termsY.length - shared || 1);
+          const same = label(x) === label(y);
+          if (shared > 0 && (same || overlap >= 0.5)) {
+            candidates.push({
+              x: x,
+              y: y,
+              score: [
+                overlap === 1 && subtree(x) === subtree(y) ? 1 : 0,
+                same ? 1 : 0,
+                overlap,
+                x.nodeType?.name === y.nodeType?.name ? 1 : 0,
+              ],
+            });
+          }
+        });
+      });
+    candidates
+      .sort((c, d) => {
+        const k = c.score.map((v, i) => v !== d.score[i]).indexOf(true);
+        return k < 0 ? 0 : d.score[k] - c.score[k];
+      })
+      .forEach(({ x, y }) => {
+        if (!matchA(x) && !matchB(y)) {
+          pair(x, y);
+        }
+      });
+  }
+}
+
+/**
+ * Everything which makes two aligned nodes the same, other than children.
+ */
+function label(n: Tree) {
+  const nt = n.nodeType;
+  return JSON.stringify([
+    nt ? [nt.name, nt.sub, nt.sup, nt.features && typeName(n)] : null,
+    n.leaf?.data.trim() ?? null,
+  ]);
+}
+
+/**
+ * Labels of `n` and all of its descendants, the same for identical subtrees.
+ */
+function subtree(n: Tree): string {
+  return label(n) + '[' + n.children.map(subtree).join(',') + ']';
+}
+
+/**
+ * Nearest ancestor of `n` which is aligned with a node of the other tree.
+ */
+function alignedAncestor(
+  nodes: Tree[],
+  n: Tree,
+  match: (n: Tree) => Tree | undefined
+): Tree | undefined {
+  let parent = parentIn(nodes, n);
+  while (parent && !match(parent)) {
+    parent = parentIn(nodes, parent);
+  }
+  return parent;
+}
+
+function parentIn(nodes: Tree[], n: Tree): Tree | undefined {
+  return nodes.filter((p) => p.children.indexOf(n) >= 0)[0];
+}
+
+/**
+ * Heaviest common subsequence of `xs` and `ys`, where `weight` is how much a
+ * pair of items is worth, or 0 if they are not alike.
+ *
+ * @returns Pairs of indices of the common items, in order.
+ */
+function lcs<T>(
+  xs: T[],
+  ys: T[],
+  weight: (x: T, y: T) => number
+): [number, number][] {
+  const len = xs
+    .map(() => ys.map(() => 0).concat(0))
+    .concat([ys.map(() => 0).concat(0)]);
+  const w = (i: number, j: number) => weight(xs[i], ys[j]);
+  for (let i = xs.length - 1; i >= 0; i--) {
+    for (let j = ys.length - 1; j >= 0; j--) {
+      len[i][j] = Math.max(
+        len[i + 1][j],
+        len[i][j + 1],
+        w(i, j) > 0 ? len[i + 1][j + 1] + w(i, j) : 0
+      );
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < xs.length && j < ys.length) {
+    if (w(i, j) > 0 && len[i][j] === len[i + 1][j + 1] + w(i, j)) {
+      pairs.push([i++, j++]);
+    } else if (len[i + 1][j] >= len[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Copies of both trees with their differences marked by classes, for
+ * rendering side by side. Deleted nodes of `a` have the class `diff-deleted`,
+ * inserted nodes of `b` have `diff-inserted`, and both nodes of a change have
+ * `diff-relabeled` or `diff-moved`. Aligned nodes share a `diff-match`
+ * attribute, numbering the pair.
+ *
+ * @param a
+ * @param b
+ * @param diff Result of `diffTrees(a, b)`.
+ * @returns The marked copies of `a` and `b`.
+ */
+function markDiff(a: Tree, b: Tree, diff: TreeDiff): [Tree, Tree] {
+  const mark = (side: 'a' | 'b') => (n: Tree, copy: Tree) => {
+    const kinds = diff.changes
+      .filter((c) => c[side] === n)
+      .map((c) => 'diff-' + c.kind);
+    if (kinds.length > 0) {
+      copy.classes = (n.classes ?? []).concat(kinds);
+    }
+    const m = diff.matches.map((p) => p[side]).indexOf(n);
+    if (m >= 0) {
+      copy.attrs = { ...n.attrs, 'diff-match': String(m) };
+    }
+  };
+  return [copyTree(a, mark('a')), copyTree(b, mark('b'))];
+}
+
+/**
+ * Copy of `b`, marked as by `markDiff`, with the nodes deleted from `a` added
+ * back in, so that every difference may be shown on a single tree. Each
+ * deleted node is added, without its children, ids or arrows, under the node
+ * standing for its parent, after that standing for its previous sibling. Nodes
+ * relabeled have their node type and data in `a`, e.g. `D the`, as their
+ * `diff-from` attribute.
+ *
+ * @param a
+ * @param b
+ * @param diff Result of `diffTrees(a, b)`.
+ * @returns The combined tree.
+ */
+function overlayDiff(a: Tree, b: Tree, diff: TreeDiff): Tree {
+  const nodesB = descendants(b);
+  const copies: Tree[] = [];
+  const [, marked] = markDiff(a, b, diff);
+  descendants(marked).forEach((c) => copies.push(c));
+
+  diff.changes
+    .filter((c) => c.kind === 'relabeled')
+    .forEach((c) => {
+      const copy = copies[nodesB.indexOf(c.b as Tree)];
+      const from = c.a as Tree;
+      copy.attrs = {
+        ...copy.attrs,
+        'diff-from': [typeName(from), from.leaf?.data.trim() ?? '']
+          .filter((p) => p !== '')
+          .join(' '),
+      };
+    });
+
+  // Nodes of `a` and what stands for them in the combined tree.
+  const placed: { a: Tree; copy: Tree }[] = diff.matches.map((m) => ({
+    a: m.a,
+    copy: copies[nodesB.indexOf(m.b)],
+  }));
+  const copyOf = (n: Tree) => placed.filter((p) => p.a === n)[0]?.copy;
+  place(a);
+  return marked;
+
+  function place(n: Tree) {
+    n.children.forEach((c, i) => {
+      if (!copyOf(c)) {
+        const under = copyOf(n);
+        // Ids and arrows of deleted nodes would clash with those of `b`.
+        const ghost: Tree = {
+          nodeType: c.nodeType,
+          leaf: c.leaf,
+          children: [],
+          classes: (c.classes ?? []).concat('diff-deleted'),
+          attrs: c.attrs,
+        };
+        if (under) {
+          const prev = i > 0 ? copyOf(n.children[i - 1]) : undefined;
+          const at = prev ? under.children.indexOf(prev) : -1;
+          under.children.splice(at + 1, 0, ghost);
+        }
+        placed.push({ a: c, copy: ghost });
+      }
+      place(c);
+    });
+  }
+}
+
+/**
+ * Deep copy of the nodes of `tree`, calling `f` with each node and its copy.
+ */
+function copyTree(tree: Tree, f: (n: Tree, copy: Tree) => void): Tree {
+  const copy: Tree = {
+    ...tree,
+    children: tree.children.map((c) => copyTree(c, f)),
+  };
+  f(tree, copy);
+  return copy;
+}
+
+export { DiffKind, Change, TreeDiff, diffTrees, markDiff, overlayDiff };
@@ -0,0 +1,273 @@
+import { parse } from './parser';
+import { render, rerender } from './render';
+import { RenderOptions, makeConfig } from './config';
+import { local, select } from 'd3-selection';
+
+/**
+ * State of a connected `<chom-tree>` element.
+ */
+type ElementState = {
+  root: ShadowRoot;
+  observer: MutationObserver;
+  /**
+   * Markup loaded from `src`, which is drawn in place of the element's text.
+   */
+  source?: string;
+  /**
+   * Counts requests for `src`, so that only the latest is drawn.
+   */
+  request: number;
+  /**
+   * Options the current SVG was rendered with, as JSON.
+   */
+  options?: string;
+};
+
+const state = local<ElementState>();
+
+/**
+ * Constructor of the element, as passed to `customElements.define`.
+ */
+type ElementConstructor = CustomElementConstructor & {
+  observedAttributes: string[];
+};
+
+/**
+ * Attributes which change how the tree is drawn. Each other than `src` and
+ * `options` sets a single render option.
+ */
+const observedAttributes = [
+  'src',
+  'options',
+  'orientation',
+  'align-terminals',
+  'compact',
+  'collapsible',
+  'duration',
+  'font-family',
+];
+
+const css = `
+:host { display: block; }
+:host([hidden]) { display: none; }
+.errors pre { color: #c00; white-space: pre-wrap; }
+`;
+
+/**
+ * Defines the `<chom-tree>` custom element, which renders the markup of its
+ * text content, or of the file at its `src` attribute, inside its shadow DOM:
+ *
+ *     <chom-tree orientation="left-right">[S [NP I] [VP ran]]</chom-tree>
+ *
+ * Render options are taken from these attributes:
+ *
+ * - `orientation`: `layout.orientation`.
+ * - `align-terminals`, `compact`: `layout.alignTerminals` and
+ *   `layout.compact`, when present.
+ * - `collapsible`: `interaction.collapse`, when present.
+ * - `duration`: `transition.duration`, in milliseconds.
+ * - `font-family`: `style.fontFamily`.
+ * - `options`: any other options, as JSON. The attributes above take
+ *   precedence over it.
+ *
+ * The tree is drawn again whenever the content or attributes change. Parse
+ * errors are listed beneath the best-effort tree. The SVG and errors may be
+ * styled from outside as the `tree` and `error` parts.
+ *
+ * Importing the library defines nothing; call this once to opt in. Defining
+ * the element again, or under another name, does nothing if that name is
+ * taken.
+ *
+ * @param name Tag name of the element.
+ */
+function defineElement(name = 'chom-tree'): void {
+  if (customElements.get(name)) {
+    return;
+  }
+
+  // Custom elements must be constructed as native classes, which the ES5
+  // build does not emit, so the constructor is written out by hand, and
+  // inherits the statics of HTMLElement as a subclass would.
+  const ChomTree: ElementConstructor = Object.setPrototypeOf(
+    function ChomTree() {
+      return Reflect.construct(HTMLElement, [], ChomTree);
+    },
+    HTMLElement
+  );
+  ChomTree.prototype = Object.create(HTMLElement.prototype, {
+    constructor: { value: ChomTree, writable: true, configurable: true },
+    connectedCallback: {
+      value: function (this: HTMLElement) {
+        connect(this);
+      },
+    },
+    disconnectedCallback: {
+      value: function (this: HTMLElement) {
+        state.get(this)?.observer.disconnect();
+      },
+    },
+    attributeChangedCallback: {
+      value: function (this: HTMLElement, attr: string) {
+        if (!this.isConnected || !state.get(this)) {
+          return;
+        }
+        if (attr === 'src') {
+          load(this);
+        } else {
+          update(this);
+        }
+      },
+    },
+  });
+  ChomTree.observedAttributes = observedAttributes;
+
+  customElements.define(name, ChomTree);
+}
+
+/**
+ * Sets up the shadow DOM the first time `el` is connected, and starts watching
+ * its content.
+ */
+function connect(el: HTMLElement) {
+  let s = state.get(el);
+  if (!s) {
+    const root = el.attachShadow({ mode: 'open' });
+    root.innerHTML = `<style>${css}</style><div></div><div class="errors"></div>`;
+    s = {
+      root: root,
+      observer: new MutationObserver(() => update(el)),
+      request: 0,
+    };
+    state.set(el, s);
+  }
+  s.observer.observe(el, {
+    childList: true,
+    characterData: true,
+    subtree: true,
+  });
+  if (el.hasAttribute('src')) {
+    load(el);
+  } else {
+    update(el);
+  }
+}
+
+/**
+ * Fetches the markup at the `src` attribute and draws it. Without `src`, the
+ * text content is drawn instead.
+ */
+function load(el: HTMLElement) {
+  const s = state.get(el) as ElementState;
+  const src = el.getAttribute('src');
+  const request = ++s.request;
+  s.source = undefined;
+  if (src === null) {
+    update(el);
+    return;
+  }
+
+  fetch(src)
+    .then((response) => {
+      if (!response.ok) {
+        throw new Error(
+          `Could not load '${src}': ${response.status} ${response.statusText}`
+        );
+      }
+      return response.text();
+    })
+    .then((text) => {
+      if (request === s.request) {
+        s.source = text;
+        update(el);
+      }
+    })
+    .catch((err: Error) => {
+      if (request === s.request) {
+        showErrors(el, [err.message]);
+      }
+    });
+}
+
+/**
+ * Draws the element's markup, re-rendering the current SVG in place when the
+ * render options are unchanged.
+ */
+function update(el: HTMLElement) {
+  const s = state.get(el) as ElementState;
+  if (el.hasAttribute('src') && s.source === undefined) {
+    return;
+  }
+
+  const div = s.root.querySelector('div') as HTMLDivElement;
+  const svg = div.querySelector('svg');
+  try {
+    const options = readOptions(el);
+    const { tree, diagnostics } = parse(s.source ?? el.textContent ?? '', {
+      recover: true,
+    });
+
+    const key = JSON.stringify(options);
+    if (svg && key === s.options) {
+      rerender(tree, svg, options);
+    } else {
+      div.textContent = '';
+      render(tree, select<HTMLDivElement, string>(div), options);
+      div.querySelector('svg')?.setAttribute('part', 'tree');
+    }
+    s.options = key;
+    showErrors(
+      el,
+      diagnostics.map((d) => d.message + '\n' + d.snippet)
+    );
+  } catch (err) {
+    showErrors(el, [(err as Error).message]);
+  }
+}
+
+/**
+ * Reads render options from the attributes of `el`.
+ *
+ * @throws {SyntaxError} If the `options` attribute is not valid JSON.
+ */
+function readOptions(el: HTMLElement): RenderOptions {
+  const options: RenderOptions = JSON.parse(el.getAttribute('options') ?? '{}');
+  const config = makeConfig(options);
+  const attr = (name: string) => el.getAttribute(name);
+  const flag = (name: string, fallback: boolean) =>
+    el.hasAttribute(name) || fallback;
+
+  const orientation = attr('orientation');
+  options.layout = {
+    ...options.layout,
+    alignTerminals: flag('align-terminals', config.layout.alignTerminals),
+    compact: flag('compact', config.layout.compact),
+  };
+  if (orientation === 'top-down' || orientation === 'left-right') {
+    options.layout.orientation = orientation;
+  }
+  options.interaction = {
+    ...options.interaction,
+    collapse: flag('collapsible', config.interaction.collapse),
+  };
+  const duration = attr('duration');
+  if (duration !== null && !isNaN(Number(duration))) {
+    options.transition = { ...options.transition, duration: Number(duration) };
+  }
+  const fontFamily = attr('font-family');
+  if (fontFamily !== null) {
+    options.style = { ...options.style, fontFamily: fontFamily };
+  }
+  return options;
+}
+
+function showErrors(el: HTMLElement, messages: string[]) {
+  const s = state.get(el) as ElementState;
+  select(s.root.querySelector('.errors'))
+    .selectAll('pre')
+    .data(messages)
+    .join('pre')
+    .attr('part', 'error')
+    .text((m) => m);
+}
+
+export { defineElement };
@@ -0,0 +1,110 @@
+/**
+ * A range of source text, as character offsets into the input. `start` is
+ * inclusive and `end` is exclusive, like `String.prototype.slice`.
+ */
+type Span = { start: number; end: number };
+
+/**
+ * Human readable position of an offset. Both `line` and `column` are 1-based,
+ * matching how editors report positions.
+ */
+type Location = { offset: number; line: number; column: number };
+
+/**
+ * Finds the line and column of `offset` within `input`.
+ *
+ * @param input
+ * @param offset
+ * @returns Location of the offset.
+ */
+function locate(input: string, offset: number): Location {
+  const before = input.slice(0, offset).split('\n');
+  return {
+    offset: offset,
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+  };
+}
+
+/**
+ * Produces the line of `input` containing `span.start`, followed by a line of
+ * carets underlining the span. Spans running past the end of the line are cut
+ * short, and empty spans (such as EOF) are given a single caret.
+ *
+ * @param input
+ * @param span
+ * @returns Two line excerpt of the input.
+ */
+function excerpt(input: string, span: Span): string {
+  const lineStart =
+    span.start > 0 ? input.lastIndexOf('\n', span.start - 1) + 1 : 0;
+  let lineEnd = input.indexOf('\n', span.start);
+  if (lineEnd < 0) {
+    lineEnd = input.length;
+  }
+
+  const line = input.slice(lineStart, lineEnd);
+  const width = Math.max(1, Math.min(span.end, lineEnd) - span.start);
+  const indent = line.slice(0, span.start - lineStart).replace(/[^\t]/g, ' ');
+
+  return line + '\n' + indent + new Array(width + 1).join('^');
+}
+
+/**
+ * Error thrown when markup can not be parsed. Along with a readable message,
+ * it records where the problem is, what was found there, and what would have
+ * been accepted instead.
+ */
+class ParseError extends Error {
+  /**
+   * The message, without its location.
+   */
+  reason: string;
+  /**
+   * Offset into the input at which the problem starts.
+   */
+  offset: number;
+  line: number;
+  column: number;
+  /**
+   * Offset into the input at which the problem ends (exclusive).
+   */
+  end: number;
+  /**
+   * Description of the offending token, e.g. `']'`, `'data'` or `EOF`.
+   */
+  found: string;
+  /**
+   * Descriptions of the tokens which would have been valid instead.
+   */
+  expected: string[];
+  /**
+   * Excerpt of the offending input line, underlined with carets.
+   */
+  snippet: string;
+
+  constructor(
+    reason: string,
+    input: string,
+    span: Span,
+    found: string,
+    expected: string[] = []
+  ) {
+    const loc = locate(input, span.start);
+    super(`${reason} (line ${loc.line}, column ${loc.column})`);
+    // Restores the prototype chain, which is lost when targeting ES5.
+    Object.setPrototypeOf(this, ParseError.prototype);
+    this.name = 'ParseError';
+
+    this.reason = reason;
+    this.offset = loc.offset;
+    this.line = loc.line;
+    this.column = loc.column;
+    this.end = span.end;
+    this.found = found;
+    this.expected = expected;
+    this.snippet = excerpt(input, span);
+  }
+}
+
+export { Span, Location, ParseError, locate, excerpt };
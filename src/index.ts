@@ -1,3 +1,33 @@
-export { parse } from './parser';
-export { render } from './render';
+export { parse, parseDocument } from './parser';
+export { ParseError } from './error';
+export { nodeAt } from './tree';
+export { stringify, format } from './stringify';
+export {
+  render,
+  renderExamples,
+  rerender,
+  highlight,
+  renderDiff,
+} from './render';
+export { renderToString } from './svg';
+export { fontMetrics } from './measure';
+export { toLatex } from './latex';
+export { parsePTB } from './ptb';
+export {
+  descendants,
+  parentOf,
+  parentsOf,
+  ancestors,
+  dominates,
+  immediatelyDominates,
+  sisters,
+  lowestCommonAncestor,
+  cCommands,
+  maximalProjection,
+  query,
+  matches,
+} from './query';
+export { lint } from './lint';
+export { diffTrees } from './diff';
+export { defineElement } from './element';
 export { select, selectAll } from 'd3-selection';
@@ -0,0 +1,270 @@
+import { Tree, TextRun, TextLine } from './tree';
+
+type Leaf = NonNullable<Tree['leaf']>;
+
+type LatexFormat = 'forest' | 'tikz-qtree' | 'qtree';
+
+type LatexOptions = {
+  format?: LatexFormat;
+  /**
+   * Style hooks for nodes with `classes`, keyed by class name. How a style is
+   * applied depends on the format:
+   *
+   * - `forest`: forest keys added to the node, e.g. `'draw, red'`.
+   * - `tikz-qtree`: TikZ options for the node, e.g. `'draw, red'`.
+   * - `qtree`: a macro the label is passed to, e.g. `'\\textbf'`.
+   */
+  styles?: { [cls: string]: string };
+  /**
+   * LaTeX written for ∅ data.
+   */
+  empty?: string;
+  /**
+   * Indentation for each level of the tree.
+   */
+  indent?: string;
+};
+
+const defaultOptions = {
+  format: 'forest' as LatexFormat,
+  styles: {} as { [cls: string]: string },
+  empty: '$\\emptyset$',
+  indent: '  ',
+};
+
+/**
+ * Writes `tree` as LaTeX source for the `forest`, `tikz-qtree` or `qtree`
+ * package, including the surrounding environment. Struck through data is
+ * written with `\sout`, from the `ulem` package. Glosses are stacked under
+ * their data with `\\`, and a translation follows the tree as a paragraph.
+ * None of the packages draw multidominance, so a node with more than one
+ * parent is written out in full under each of them.
+ *
+ * @param tree Tree to be exported.
+ * @param options
+ * @returns LaTeX source.
+ */
+function toLatex(tree: Tree, options: LatexOptions = {}): string {
+  const opts = { ...defaultOptions, ...options };
+
+  const translation = tree.translation ? '\n\n' + line(tree.translation) : '';
+  switch (opts.format) {
+    case 'forest':
+      return (
+        ['\\begin{forest}', forest(tree, ''), '\\end{forest}'].join('\n') +
+        translation
+      );
+    case 'tikz-qtree':
+      return (
+        [
+          '\\begin{tikzpicture}',
+          '\\Tree ' + qtree(tree, '', true),
+          '\\end{tikzpicture}',
+        ].join('\n') + translation
+      );
+    case 'qtree':
+      return '\\Tree ' + qtree(tree, '', false) + translation;
+  }
+
+  function forest(n: Tree, prefix: string): string {
+    const keys = styles(n).join(', ');
+    let markup = '[' + braced(label(n)) + (keys ? ', ' + keys : '');
+
+    const collapsed = collapsedData(n);
+    if (collapsed !== undefined) {
+      return markup + ' [' + fleaf(collapsed) + ', roof]]';
+    }
+    if (!n.nodeType && n.leaf) {
+      return '[' + fleaf(n.leaf) + (keys ? ', ' + keys : '') + ']';
+    }
+    if (n.leaf) {
+      return markup + ' [' + fleaf(n.leaf) + ']]';
+    }
+    if (n.children.length === 0) {
+      return markup + ']';
+    }
+
+    const inner = prefix + opts.indent;
+    n.children.forEach((c) => {
+      markup += '\n' + inner + forest(c, inner);
+    });
+    return markup + '\n' + prefix + ']';
+  }
+
+  function qtree(n: Tree, prefix: string, tikz: boolean): string {
+    const collapsed = collapsedData(n);
+    if (collapsed !== undefined) {
+      if (tikz) {
+        return `[.${qlabel(n, tikz)} \\edge[roof]; ${qleaf(collapsed, tikz)} ]`;
+      }
+      return `\\qroof{${data(collapsed)}}.${qlabel(n, tikz)}`;
+    }
+
+    if (!n.leaf && n.children.length === 0) {
+      return qlabel(n, tikz);
+    }
+    if (!n.nodeType && n.leaf) {
+      return qleaf(n.leaf, tikz);
+    }
+
+    let markup = '[.' + qlabel(n, tikz);
+    if (n.leaf) {
+      return markup + ' ' + qleaf(n.leaf, tikz) + ' ]';
+    }
+
+    const inner = prefix + opts.indent;
+    n.children.forEach((c) => {
+      markup += '\n' + inner + qtree(c, inner, tikz);
+    });
+    return markup + '\n' + prefix + ']';
+  }
+
+  /**
+   * Labels in (tikz-)qtree are brace-grouped, and carry their class styles as
+   * a `\node` (tikz-qtree) or as macros wrapping the label (qtree).
+   */
+  function qlabel(n: Tree, tikz: boolean) {
+    const s = styles(n);
+    if (tikz) {
+      return s.length > 0
+        ? `\\node[${s.join(', ')}]{${label(n)}};`
+        : group(label(n));
+    }
+    return group(s.reduce((l, macro) => `${macro}{${l}}`, label(n)));
+  }
+
+  function styles(n: Tree) {
+    return (n.classes ?? [])
+      .filter((c) => Object.prototype.hasOwnProperty.call(opts.styles, c))
+      .map((c) => opts.styles[c]);
+  }
+
+  function label(n: Tree) {
+    const nt = n.nodeType;
+    if (!nt) {
+      return '';
+    }
+    let markup = escape(nt.name);
+    if (nt.sub !== '') {
+      markup += `$_{${escapeMath(nt.sub)}}$`;
+    }
+    if (nt.sup !== '') {
+      markup += `$^{${escapeMath(nt.sup)}}$`;
+    }
+    return markup;
+  }
+
+  /**
+   * Leaves with glosses need centered multi-line nodes, which in forest is
+   * the `align` key, and in tikz-qtree an explicit `\node`.
+   */
+  function fleaf(leaf: Leaf) {
+    return braced(data(leaf)) + (leaf.glosses ? ', align=center' : '');
+  }
+
+  function qleaf(leaf: Leaf, tikz: boolean) {
+    return tikz && leaf.glosses
+      ? `\\node[align=center]{${data(leaf)}};`
+      : group(data(leaf));
+  }
+
+  function data(leaf: Leaf) {
+    const main = leaf.data === '∅' && !leaf.runs ? opts.empty : line(leaf);
+    return [main].concat((leaf.glosses ?? []).map(line)).join(' \\\\ ');
+  }
+
+  function line(text: TextLine) {
+    if (!text.runs) {
+      return escape(text.data.trim());
+    }
+    const last = text.runs.length - 1;
+    return text.runs
+      .map((r, i) => {
+        let t = i === 0 ? r.text.replace(/^\s+/, '') : r.text;
+        t = i === last ? t.replace(/\s+$/, '') : t;
+        return run(r, t);
+      })
+      .join('');
+  }
+}
+
+/**
+ * Leaf of a node's collapsed child, if the node has exactly one child and it
+ * is a collapsed leaf.
+ */
+function collapsedData(n: Tree) {
+  const only = n.children.length === 1 ? n.children[0] : null;
+  return only?.leaf?.isCollapsed ? only.leaf : undefined;
+}
+
+/**
+ * Writes `text` with the formatting of `r`.
+ */
+function run(r: TextRun, text: string) {
+  if (r.script) {
+    return r.script === 'sub'
+      ? `$_{${escapeMath(text)}}$`
+      : `$^{${escapeMath(text)}}$`;
+  }
+  let markup = escape(text);
+  if (r.italic) {
+    markup = `\\textit{${markup}}`;
+  }
+  if (r.bold) {
+    markup = `\\textbf{${markup}}`;
+  }
+  if (r.smallCaps) {
+    markup = `\\textsc{${markup}}`;
+  }
+  if (r.strike) {
+    markup = `\\sout{${markup}}`;
+  }
+  return markup;
+}
+
+/**
+ * Groups text in braces, unless it is a single plain word.
+ */
+function group(text: string) {
+  return /^[A-Za-z0-9']+$/.test(text) ? text : `{${text}}`;
+}
+
+/**
+ * Forest splits node content on commas and brackets, so braces any content
+ * containing them.
+ */
+function braced(text: string) {
+  return /[,[\]=]/.test(text) ? `{${text}}` : text;
+}
+
+function escape(text: string) {
+  return text.replace(/[\\{}$&#^_%~]/g, (c) => {
+    switch (c) {
+      case '\\':
+        return '\\textbackslash{}';
+      case '^':
+        return '\\^{}';
+      case '~':
+        return '\\textasciitilde{}';
+      default:
+        return '\\' + c;
+    }
+  });
+}
+
+function escapeMath(text: string) {
+  return text.replace(/[\\{}$&#^_%~]/g, (c) => {
+    switch (c) {
+      case '\\':
+        return '\\backslash{}';
+      case '^':
+        return '\\hat{}';
+      case '~':
+        return '\\sim{}';
+      default:
+        return '\\' + c;
+    }
+  });
+}
+
+export { LatexFormat, LatexOptions, toLatex };
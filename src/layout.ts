@@ -0,0 +1,640 @@
+import { Tree, Arrow, TextRun } from './tree';
+import { RenderConfig } from './config';
+import { flextree, FlexHierarchy } from 'd3-flextree';
+
+interface TreeWithSize extends Tree {
+  size: [number, number];
+  /**
+   * Extra depth given to a terminal while aligning terminals.
+   */
+  stretch?: number;
+}
+type Hierarchy = FlexHierarchy<TreeWithSize>;
+/**
+ * A link from a parent to its child. Links from the other parents of a node
+ * with more than one parent are routed around other nodes, as the path `d`.
+ */
+type Link = { source: Hierarchy; target: Hierarchy; d?: string };
+/**
+ * A routed arrow: its path, and the depth of its lowest point.
+ */
+type ArrowPath = { arrow: Arrow; d: string; bottom: number };
+type Spacing = RenderConfig['spacing'];
+type Style = RenderConfig['style'];
+type LayoutOptions = RenderConfig['layout'];
+/**
+ * Accessors of a box around a laid out node, in SVG coordinates.
+ */
+type Box = {
+  x1: (n: Hierarchy) => number;
+  y1: (n: Hierarchy) => number;
+  x2: (n: Hierarchy) => number;
+  y2: (n: Hierarchy) => number;
+  width: (n: Hierarchy) => number;
+  height: (n: Hierarchy) => number;
+};
+/**
+ * Node geometry, as made by `makeGeometry`.
+ */
+type Geometry = {
+  horizontal: boolean;
+  mBox: Box;
+  pBox: Box;
+  cBox: Box;
+  flow: {
+    margin: { breadth: number; depth: number };
+    b1: (n: Hierarchy) => number;
+    b2: (n: Hierarchy) => number;
+    d1: (n: Hierarchy) => number;
+    d2: (n: Hierarchy) => number;
+    center: (n: Hierarchy) => number;
+  };
+  point: (breadth: number, depth: number) => { x: number; y: number };
+  centerX: (n: Hierarchy) => number;
+  calcApplySpacing: (n: Hierarchy) => [number, number];
+};
+/**
+ * Lays out a hierarchy in place, as made by `makeLayout`. The hierarchy to be
+ * laid out is made from a tree by `hierarchy`.
+ */
+type Layout = {
+  (root: Hierarchy): Hierarchy;
+  hierarchy: (tree: Tree) => Hierarchy;
+};
+/**
+ * Where the translation is drawn: `x` is its center, and `y` its top.
+ */
+type TranslationBox = { x: number; y: number; width: number; height: number };
+
+/**
+ * Counts rendered SVGs, so each may be given unique ids.
+ */
+let svgCount = 0;
+
+/**
+ * Attributes of the arrowhead marker used by movement arrows.
+ */
+const arrowhead = {
+  viewBox: '0 0 10 10',
+  refX: 10,
+  refY: 5,
+  markerWidth: 8,
+  markerHeight: 8,
+  orient: 'auto-start-reverse',
+  path: 'M 0 0 L 10 5 L 0 10 z',
+};
+
+/**
+ * Returns fresh ids for the arrowhead marker, `<title>` and `<desc>` of an
+ * SVG. Ids must be unique across every SVG on a page, as these are all
+ * referenced by id.
+ */
+function nextIds(): { marker: string; title: string; desc: string } {
+  const n = svgCount++;
+  return {
+    marker: `chomtree-arrowhead-${n}`,
+    title: `chomtree-title-${n}`,
+    desc: `chomtree-desc-${n}`,
+  };
+}
+
+/**
+ * Value of the `class` attribute for an element drawn for `tree`: `base`,
+ * followed by the node's own classes.
+ */
+function classNames(base: string, tree: Tree): string {
+  return [base].concat(tree.classes ?? []).join(' ');
+}
+
+/**
+ * The node's attributes, as `data-` attributes of its element. `start` and
+ * `end` are left out, since `data-start` and `data-end` hold the source span;
+ * the parser rejects them, but built trees may still have them.
+ */
+function dataAttrs(tree: Tree): { [name: string]: string } {
+  const attrs = tree.attrs ?? {};
+  const data: { [name: string]: string } = {};
+  Object.keys(attrs).forEach((key) => {
+    if (key !== 'start' && key !== 'end') {
+      data['data-' + key] = attrs[key];
+    }
+  });
+  return data;
+}
+
+/**
+ * Font size of a run of leaf data. Scripts are scaled down against the data
+ * just as node type scripts are against the node type.
+ */
+function runSize(run: TextRun, style: Style): number {
+  const size = style.fontSize.nodeData;
+  return run.script
+    ? (size * style.fontSize.script) / style.fontSize.nodeType
+    : size;
+}
+
+/**
+ * Attributes of the `<tspan>` drawn for a run of leaf data. Attributes which
+ * do not apply are `null`.
+ */
+function runAttrs(
+  run: TextRun,
+  style: Style
+): { [name: string]: string | number | null } {
+  return {
+    'font-size': run.script ? runSize(run, style) : null,
+    'baseline-shift': run.script
+      ? { sub: 'sub', sup: 'super' }[run.script]
+      : null,
+    'font-style': run.italic ? 'italic' : null,
+    'font-weight': run.bold ? 'bold' : null,
+    'font-variant': run.smallCaps ? 'small-caps' : null,
+    'text-decoration': run.strike ? 'line-through' : null,
+  };
+}
+
+/**
+ * Builds accessors for the boxes around each laid out node. All renderers
+ * share these, so that they agree on where everything is drawn.
+ *
+ * The layout itself runs along the tree's own axes: its breadth, across
+ * siblings, and its depth, from the root towards the leaves. When the tree is
+ * drawn top-down these are `x` and `y`, and when left-right they are swapped.
+ *
+ * @param spacing
+ * @param options Layout mode.
+ * @returns Node geometry accessors.
+ */
+function makeGeometry(spacing: Spacing, options: LayoutOptions): Geometry {
+  const horizontal = options.orientation === 'left-right';
+  const margin = horizontal
+    ? { breadth: spacing.margin.y, depth: spacing.margin.x }
+    : { breadth: spacing.margin.x, depth: spacing.margin.y };
+
+  const geom: Geometry = {
+    horizontal: horizontal,
+
+    /**
+     * Bounding Box after applying margin to `pBox`. This should follow nodeSize.
+     */
+    mBox: {
+      x1: (n: Hierarchy) => (horizontal ? n.top : n.left),
+      y1: (n: Hierarchy) => (horizontal ? n.left : n.top),
+      x2: (n: Hierarchy) => (horizontal ? n.bottom : n.right),
+      y2: (n: Hierarchy) => (horizontal ? n.right : n.bottom),
+      width: (n: Hierarchy) => geom.mBox.x2(n) - geom.mBox.x1(n),
+      height: (n: Hierarchy) => geom.mBox.y2(n) - geom.mBox.y1(n),
+    },
+
+    /**
+     * Bounding Box after applying padding to the content, `cBox`. This is the
+     * nodeSize with the margin removed.
+     */
+    pBox: {
+      x1: (n: Hierarchy) => geom.mBox.x1(n) + spacing.margin.x,
+      y1: (n: Hierarchy) => geom.mBox.y1(n) + spacing.margin.y,
+      x2: (n: Hierarchy) => geom.mBox.x2(n) - spacing.margin.x,
+      y2: (n: Hierarchy) => geom.mBox.y2(n) - spacing.margin.y,
+      width: (n: Hierarchy) => geom.pBox.x2(n) - geom.pBox.x1(n),
+      height: (n: Hierarchy) => geom.pBox.y2(n) - geom.pBox.y1(n),
+    },
+
+    /**
+     * Bounding Box for the node content, before padding and margin.
+     */
+    cBox: {
+      x1: (n: Hierarchy) =>
+        geom.mBox.x1(n) + spacing.margin.x + spacing.padding.x,
+      y1: (n: Hierarchy) =>
+        geom.mBox.y1(n) + spacing.margin.y + spacing.padding.y,
+      x2: (n: Hierarchy) =>
+        geom.mBox.x2(n) - spacing.margin.x - spacing.padding.x,
+      y2: (n: Hierarchy) =>
+        geom.mBox.y2(n) - spacing.margin.y - spacing.padding.y,
+      width: (n: Hierarchy) => geom.cBox.x2(n) - geom.cBox.x1(n),
+      height: (n: Hierarchy) => geom.cBox.y2(n) - geom.cBox.y1(n),
+    },
+
+    /**
+     * `pBox` along the tree's axes, where links and arrows are routed.
+     */
+    flow: {
+      margin: margin,
+      b1: (n: Hierarchy) => n.left + margin.breadth,
+      b2: (n: Hierarchy) => n.right - margin.breadth,
+      d1: (n: Hierarchy) => n.top + margin.depth,
+      d2: (n: Hierarchy) => n.bottom - margin.depth,
+      center: (n: Hierarchy) => n.x,
+    },
+
+    /**
+     * Position in the SVG of the point at `breadth` and `depth`.
+     */
+    point: (breadth: number, depth: number) =>
+      horizontal ? { x: depth, y: breadth } : { x: breadth, y: depth },
+
+    centerX: (n: Hierarchy) =>
+      horizontal ? (geom.mBox.x1(n) + geom.mBox.x2(n)) / 2 : n.x,
+
+    /**
+     * Size of the node, in the layout's `[breadth, depth]`.
+     */
+    calcApplySpacing: (n: Hierarchy): [number, number] => {
+      const width = n.data.size[0] + 2 * (spacing.padding.x + spacing.margin.x);
+      const height =
+        n.data.size[1] + 2 * (spacing.padding.y + spacing.margin.y);
+      return horizontal ? [height, width] : [width, height];
+    },
+  };
+
+  return geom;
+}
+
+/**
+ * Creates the flextree layout used by all renderers. Node content sizes must
+ * be stored in `data.size` before the layout is applied.
+ *
+ * With `alignTerminals`, the tree is laid out twice: terminals are first
+ * stretched down to the deepest of them, so that no subtree is placed in their
+ * way, and then moved to the bottom of their stretched boxes.
+ *
+ * Nodes with more than one parent are laid out once, as by `layoutChildren`.
+ */
+function makeLayout(geom: Geometry, options: LayoutOptions): Layout {
+  const flex = flextree<TreeWithSize>()
+    .spacing(options.compact ? -geom.flow.margin.breadth : 0)
+    .nodeSize((n) => {
+      const size = geom.calcApplySpacing(n);
+      return [size[0], size[1] + (n.data.stretch ?? 0)];
+    });
+
+  function layout(root: Hierarchy) {
+    flex(root);
+    if (!options.alignTerminals) {
+      return root;
+    }
+
+    const terminals = root.leaves();
+    const top = terminals.reduce((t, n) => Math.max(n.y, t), -Infinity);
+    terminals.forEach((n) => {
+      n.data.stretch = top - n.y;
+    });
+    flex(root);
+    terminals.forEach((n) => {
+      n.y = top;
+      delete n.data.stretch;
+    });
+    return root;
+  }
+
+  layout.hierarchy = (tree: Tree) => {
+    const children = layoutChildren(tree);
+    return flex.hierarchy(
+      tree as TreeWithSize,
+      (n) => children(n) as TreeWithSize[]
+    ) as Hierarchy;
+  };
+  return layout;
+}
+
+/**
+ * Children of each node as laid out. A node with more than one parent is laid
+ * out beneath the deepest of them (by its longest path from the root), so that
+ * it is below all of its parents, or the first in pre-order of those as deep.
+ * Links from its other parents are found by `calcSharedLinks`.
+ *
+ * @param tree
+ * @returns Children laid out beneath a node of `tree`.
+ */
+function layoutChildren(tree: Tree): (n: Tree) => Tree[] {
+  const nodes: Tree[] = [];
+  const depths: number[] = [];
+  const visit = (n: Tree, depth: number) => {
+    const i = nodes.indexOf(n);
+    if (i < 0) {
+      nodes.push(n);
+      depths.push(depth);
+    } else if (depths[i] < depth) {
+      depths[i] = depth;
+    } else {
+      return;
+    }
+    n.children.forEach((c) => visit(c, depth + 1));
+  };
+  visit(tree, 0);
+
+  const homes = nodes.map(
+    (n, i) =>
+      nodes.filter(
+        (p, j) => p.children.indexOf(n) >= 0 && depths[j] === depths[i] - 1
+      )[0]
+  );
+  return (n) =>
+    n.children.filter(
+      (c, i) => n.children.indexOf(c) === i && homes[nodes.indexOf(c)] === n
+    );
+}
+
+/**
+ * Links to nodes with more than one parent from the parents they are not laid
+ * out beneath. Each is drawn straight where it can be, and otherwise runs down
+ * the gap between nodes nearest to the straight line, so as not to cross any
+ * node other than its own two.
+ *
+ * @param root
+ * @param geom
+ * @returns The links, each routed as a path.
+ */
+function calcSharedLinks(root: Hierarchy, geom: Geometry): Link[] {
+  const { flow } = geom;
+  const all = root.descendants();
+  const placed = (t: Tree) => all.filter((n) => n.data === t)[0];
+
+  const links: Link[] = [];
+  all.forEach((source) => {
+    const laidOut = (source.children ?? []).map((c) => c.data as Tree);
+    source.data.children.forEach((c, i) => {
+      const target = placed(c);
+      if (
+        target &&
+        laidOut.indexOf(c) < 0 &&
+        source.data.children.indexOf(c) === i
+      ) {
+        links.push({
+          source: source,
+          target: target,
+          d: route(source, target),
+        });
+      }
+    });
+  });
+  return links;
+
+  function route(source: Hierarchy, target: Hierarchy) {
+    const { margin } = flow;
+    const s = { b: flow.center(source), d: flow.d2(source) };
+    const t = { b: flow.center(target), d: flow.d1(target) };
+    const others = all.filter((n) => n !== source && n !== target);
+
+    // Gaps beside each node in the way, nearest the straight line first.
+    const mid = (s.b + t.b) / 2;
+    const gaps = others
+      .filter((n) => flow.d2(n) > s.d && flow.d1(n) < t.d)
+      .reduce(
+        (bs, n) =>
+          bs.concat(flow.b1(n) - margin.breadth, flow.b2(n) + margin.breadth),
+        [] as number[]
+      )
+      .sort((a, b) => Math.abs(a - mid) - Math.abs(b - mid));
+    const top = Math.min(s.d + margin.depth, (s.d + t.d) / 2);
+    const bottom = Math.max(t.d - margin.depth, top);
+    const routes = [[s, t]].concat(
+      gaps.map((b) => [s, { b: b, d: top }, { b: b, d: bottom }, t])
+    );
+
+    let path = routes[0];
+    for (let k = 0; k < routes.length; k++) {
+      const r = routes[k];
+      const clear = r
+        .slice(1)
+        .every((q, j) => others.every((n) => !crosses(r[j], q, n, geom)));
+      if (clear) {
+        path = r;
+        break;
+      }
+    }
+    return (
+      'M ' +
+      path
+        .filter(
+          (p, k) => k === 0 || p.b !== path[k - 1].b || p.d !== path[k - 1].d
+        )
+        .map((p) => geom.point(p.b, p.d))
+        .map((p) => `${p.x} ${p.y}`)
+        .join(' L ')
+    );
+  }
+}
+
+/**
+ * Whether the segment from `p` to `q`, given along the tree's axes, passes
+ * through the `pBox` of `n`. Segments only touching its edge do not.
+ */
+function crosses(
+  p: { b: number; d: number },
+  q: { b: number; d: number },
+  n: Hierarchy,
+  geom: Geometry
+) {
+  const { flow } = geom;
+  const axes = [
+    { from: p.b, to: q.b, min: flow.b1(n), max: flow.b2(n) },
+    { from: p.d, to: q.d, min: flow.d1(n), max: flow.d2(n) },
+  ];
+  // The part of the segment within the box, as fractions of its length.
+  let lo = 0;
+  let hi = 1;
+  for (let k = 0; k < axes.length; k++) {
+    const { from, to, min, max } = axes[k];
+    if (from === to) {
+      if (from <= min || from >= max) {
+        return false;
+      }
+      continue;
+    }
+    const a = (min - from) / (to - from);
+    const b = (max - from) / (to - from);
+    lo = Math.max(lo, Math.min(a, b));
+    hi = Math.min(hi, Math.max(a, b));
+  }
+  return lo < hi;
+}
+
+/**
+ * Endpoints of the line drawn for `link`, from the end of the parent to the
+ * start of the child (bottom to top, when drawn top-down). For the link, we
+ * ignore the padding.
+ */
+function linkLine(
+  link: Link,
+  geom: Geometry
+): { x1: number; y1: number; x2: number; y2: number } {
+  const { flow } = geom;
+  const source = geom.point(flow.center(link.source), flow.d2(link.source));
+  const target = geom.point(flow.center(link.target), flow.d1(link.target));
+  return { x1: source.x, y1: source.y, x2: target.x, y2: target.y };
+}
+
+/**
+ * Points of the triangle drawn over a collapsed child, as an SVG `points`
+ * attribute.
+ */
+function linkTriangle(link: Link, geom: Geometry): string {
+  const { flow } = geom;
+  const start = flow.d1(link.target);
+  return [
+    geom.point(flow.center(link.source), flow.d2(link.source)),
+    geom.point(flow.b1(link.target), start),
+    geom.point(flow.b2(link.target), start),
+  ]
+    .map((p) => `${p.x},${p.y}`)
+    .join(' ');
+}
+
+/**
+ * Routes each arrow in `root` as a curve from the bottom of its source node
+ * to the bottom of its target, dipping below every node in between so as not
+ * to cross any branches. Arrows to unknown nodes are ignored.
+ *
+ * When the tree is drawn left-right, "bottom" and "below" are to the right.
+ */
+function calcArrows(
+  root: Hierarchy,
+  geom: Geometry,
+  spacing: Spacing
+): ArrowPath[] {
+  const { flow } = geom;
+  const named: { [id: string]: Hierarchy } = Object.create(null);
+  root.each((n) => {
+    if (n.data.id !== undefined) {
+      named[n.data.id] = n;
+    }
+  });
+
+  const paths: ArrowPath[] = [];
+  root.each((source) => {
+    (source.data.arrows ?? []).forEach((arrow) => {
+      const target = named[arrow.target];
+      if (!target) {
+        return;
+      }
+
+      const s = { b: flow.center(source), d: flow.d2(source) };
+      const t = { b: flow.center(target), d: flow.d2(target) };
+      const left = Math.min(s.b, t.b);
+      const right = Math.max(s.b, t.b);
+
+      let floor = Math.max(s.d, t.d);
+      root.each((n) => {
+        if (flow.b2(n) >= left && flow.b1(n) <= right) {
+          floor = Math.max(flow.d2(n), floor);
+        }
+      });
+      const bottom =
+        floor + spacing.arrow.depth + paths.length * spacing.arrow.gap;
+
+      // With both control points at depth c, the deepest point of the
+      // curve is its midpoint, at (s.d + t.d) / 8 + 3c / 4.
+      const c = (bottom - (s.d + t.d) / 8) / 0.75;
+      const points = [
+        geom.point(s.b, s.d),
+        geom.point(s.b, c),
+        geom.point(t.b, c),
+        geom.point(t.b, t.d),
+      ].map((p) => `${p.x} ${p.y}`);
+      paths.push({
+        arrow: arrow,
+        d: `M ${points[0]} C ${points.slice(1).join(' ')}`,
+        bottom: bottom,
+      });
+    });
+  });
+
+  return paths;
+}
+
+/**
+ * Places a translation of the given `size` centered beneath the tree and its
+ * arrows.
+ */
+function calcTranslation(
+  root: Hierarchy,
+  arrows: ArrowPath[],
+  geom: Geometry,
+  spacing: Spacing,
+  size: [number, number]
+): TranslationBox {
+  const { min, max } = calcBounds(root, arrows, geom, spacing);
+  return {
+    x: (min.x + max.x) / 2,
+    y: max.y + spacing.margin.y,
+    width: size[0],
+    height: size[1],
+  };
+}
+
+/**
+ * Smallest `viewBox` containing every node and arrow, and the translation if
+ * one is given, as `[x, y, width, height]`.
+ */
+function calcViewBox(
+  root: Hierarchy,
+  arrows: ArrowPath[],
+  geom: Geometry,
+  spacing: Spacing,
+  translation?: TranslationBox
+): [number, number, number, number] {
+  const { min, max } = calcBounds(root, arrows, geom, spacing);
+  if (translation) {
+    const half = translation.width / 2 + spacing.margin.x;
+    min.x = Math.min(translation.x - half, min.x);
+    max.x = Math.max(translation.x + half, max.x);
+    max.y = translation.y + translation.height + spacing.margin.y;
+  }
+
+  return [min.x, min.y, max.x - min.x, max.y - min.y];
+}
+
+/**
+ * Bounds of every node and arrow.
+ */
+function calcBounds(
+  root: Hierarchy,
+  arrows: ArrowPath[],
+  geom: Geometry,
+  spacing: Spacing
+) {
+  const max = { x: -Infinity, y: -Infinity };
+  const min = { x: Infinity, y: Infinity };
+  root.each((n) => {
+    max.x = Math.max(geom.mBox.x2(n), max.x);
+    max.y = Math.max(geom.mBox.y2(n), max.y);
+    min.x = Math.min(geom.mBox.x1(n), min.x);
+    min.y = Math.min(geom.mBox.y1(n), min.y);
+  });
+  arrows.forEach((a) => {
+    const far = a.bottom + spacing.arrow.depth;
+    if (geom.horizontal) {
+      max.x = Math.max(far, max.x);
+    } else {
+      max.y = Math.max(far, max.y);
+    }
+  });
+
+  return { min: min, max: max };
+}
+
+export {
+  TreeWithSize,
+  Hierarchy,
+  Link,
+  ArrowPath,
+  Geometry,
+  Layout,
+  TranslationBox,
+  arrowhead,
+  nextIds,
+  classNames,
+  dataAttrs,
+  runSize,
+  runAttrs,
+  makeGeometry,
+  makeLayout,
+  layoutChildren,
+  calcSharedLinks,
+  linkLine,
+  linkTriangle,
+  calcArrows,
+  calcTranslation,
+  calcViewBox,
+};
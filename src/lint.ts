@@ -0,0 +1,213 @@
+import { Tree } from './tree';
+import { Span, locate, excerpt } from './error';
+import { descendants, category, barLevel } from './query';
+import { typeName } from './describe';
+
+type Severity = 'error' | 'warning';
+
+/**
+ * A check run against every node of a tree.
+ */
+type LintRule = {
+  /**
+   * Severity of the rule's diagnostics, when not set by the configuration.
+   * Defaults to `'warning'`.
+   */
+  severity?: Severity;
+  /**
+   * Returns a message describing what is wrong with `node`, or `undefined` if
+   * nothing is.
+   */
+  check: (node: Tree, context: RuleContext) => string | undefined;
+};
+
+/**
+ * Where a node being checked sits in its tree. A node with more than one
+ * parent is checked once, with `parent` the first of its `parents`.
+ */
+type RuleContext = { root: Tree; parent?: Tree; parents: Tree[] };
+
+/**
+ * Configuration of the rules to lint with, keyed by rule name. Built-in rules
+ * are on unless set to `'off'`, and may be given another severity. Any other
+ * key adds a rule of that name.
+ *
+ * For example, `{ 'binary-branching': 'off', 'leaf-placement': 'error' }`.
+ */
+type LintRules = { [name: string]: Severity | 'off' | LintRule };
+
+/**
+ * A problem found by a rule. Diagnostics point to the offending node, and
+ * when it was parsed, to its source span. Given the markup, they also carry
+ * the same location and excerpt as a `ParseError`.
+ */
+type LintDiagnostic = {
+  rule: string;
+  severity: Severity;
+  message: string;
+  node: Tree;
+  span?: Span;
+  line?: number;
+  column?: number;
+  snippet?: string;
+};
+
+/**
+ * Rules run by `lint` unless configured otherwise.
+ */
+const builtinRules: { [name: string]: LintRule } = {
+  /**
+   * Phrases and intermediate projections have a child of their own category.
+   * Nodes with no children, or only a collapsed one, are abbreviated and so
+   * left alone.
+   */
+  'xbar-head': {
+    severity: 'error',
+    check: (n) => {
+      if (barLevel(n) === 0 || n.children.every((c) => !c.nodeType)) {
+        return undefined;
+      }
+      const cat = category(n);
+      return n.children.some((c) => c.nodeType && category(c) === cat)
+        ? undefined
+        : `${label(n)} has no head of category ${cat}`;
+    },
+  },
+  /**
+   * Projections of a category are no higher than the nodes above them: `N'`
+   * may not dominate `NP`.
+   */
+  'xbar-levels': {
+    severity: 'error',
+    check: (n, { parents }) => {
+      const parent = parents.filter(
+        (p) => category(n) === category(p) && barLevel(n) > barLevel(p)
+      )[0];
+      return parent && n.nodeType
+        ? `${label(n)} is a higher projection than its parent ${label(parent)}`
+        : undefined;
+    },
+  },
+  'binary-branching': {
+    check: (n) =>
+      n.children.length > 2
+        ? `${label(n)} has ${n.children.length} children, not at most 2`
+        : undefined,
+  },
+  /**
+   * Non-branching nodes do not dominate other non-branching nodes.
+   */
+  'no-unary-chains': {
+    check: (n) =>
+      n.children.length === 1 && n.children[0].children.length === 1
+        ? `${label(n)} begins a chain of non-branching nodes`
+        : undefined,
+  },
+  /**
+   * Words are the data of heads, or of phrases abbreviating them, and every
+   * head has data, even if only ∅.
+   */
+  'leaf-placement': {
+    check: (n) => {
+      if (!n.nodeType) {
+        return undefined;
+      }
+      if (n.leaf && !n.leaf.isCollapsed && barLevel(n) === 1) {
+        return `'${n.leaf.data}' is the data of ${label(n)}, not of a head`;
+      }
+      return !n.leaf && n.children.length === 0 && barLevel(n) === 0
+        ? `${label(n)} has no data`
+        : undefined;
+    },
+  },
+};
+
+/**
+ * Checks `tree` against the rules of a theoretical framework, such as X-bar
+ * head projection and binary branching. The built-in rules are
+ * `xbar-head`, `xbar-levels`, `binary-branching`, `no-unary-chains` and
+ * `leaf-placement`, which `rules` may turn off, reconfigure or add to.
+ *
+ * @param tree
+ * @param rules Rule configuration.
+ * @param input Markup `tree` was parsed from, used to locate diagnostics.
+ * @returns Diagnostics for every problem found, in pre-order of their nodes.
+ * @throws {Error} If `rules` sets the severity of a rule which is not built in.
+ */
+function lint(
+  tree: Tree,
+  rules: LintRules = {},
+  input?: string
+): LintDiagnostic[] {
+  const builtin = (name: string) =>
+    Object.prototype.hasOwnProperty.call(builtinRules, name);
+  const active: { name: string; rule: LintRule; severity: Severity }[] = [];
+  Object.keys(builtinRules)
+    .concat(Object.keys(rules).filter((name) => !builtin(name)))
+    .forEach((name) => {
+      const setting: LintRules[string] | undefined = rules[name];
+      if (typeof setting === 'object') {
+        active.push({
+          name,
+          rule: setting,
+          severity: setting.severity ?? 'warning',
+        });
+      } else if (!builtin(name)) {
+        throw new Error(`Unknown lint rule '${name}'`);
+      } else if (setting !== 'off') {
+        const rule = builtinRules[name];
+        active.push({
+          name,
+          rule,
+          severity: setting ?? rule.severity ?? 'warning',
+        });
+      }
+    });
+
+  // Shared nodes are checked once, knowing all of their parents.
+  const nodes = descendants(tree);
+  const parents: Tree[][] = nodes.map(() => []);
+  nodes.forEach((p) =>
+    p.children.forEach((c) => parents[nodes.indexOf(c)].push(p))
+  );
+
+  const diagnostics: LintDiagnostic[] = [];
+  nodes.forEach((n, i) => {
+    const context = { root: tree, parent: parents[i][0], parents: parents[i] };
+    active.forEach(({ name, rule, severity }) => {
+      const message = rule.check(n, context);
+      if (message !== undefined) {
+        diagnostics.push(diagnostic(name, severity, message, n));
+      }
+    });
+  });
+  return diagnostics;
+
+  function diagnostic(
+    rule: string,
+    severity: Severity,
+    message: string,
+    node: Tree
+  ): LintDiagnostic {
+    const d: LintDiagnostic = { rule, severity, message, node };
+    if (node.span) {
+      d.span = node.span;
+      if (input !== undefined) {
+        const loc = locate(input, node.span.start);
+        d.line = loc.line;
+        d.column = loc.column;
+        d.snippet = excerpt(input, node.span);
+      }
+    }
+    return d;
+  }
+}
+
+/**
+ * Node type of `n` as written, e.g. `NP_i`, or `node` if it has none.
+ */
+function label(n: Tree) {
+  return typeName(n) || 'node';
+}
+
+export { Severity, LintRule, RuleContext, LintRules, LintDiagnostic, lint };
@@ -0,0 +1,182 @@
+import { Tree, TextRun, TextLine } from './tree';
+import { RenderConfig } from './config';
+import { runSize } from './layout';
+import { layoutAvm } from './avm';
+
+/**
+ * Text measurement backend, used to size nodes where `getBBox()` is not
+ * available. All sizes are in the same units as `fontSize`.
+ */
+type Measurer = {
+  /**
+   * Width of `text`, set in a single line.
+   */
+  width: (
+    text: string,
+    fontSize: number,
+    fontFamily: string | null,
+    bold?: boolean
+  ) => number;
+  /**
+   * Height of a line of text.
+   */
+  height: (fontSize: number, fontFamily: string | null) => number;
+};
+
+/**
+ * Advance widths of the printable ASCII characters (from `' '` to `'~'`) in
+ * Helvetica, in thousandths of an em. Arial shares these metrics, and most
+ * other sans-serif fonts are close.
+ */
+// prettier-ignore
+const helvetica = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+/**
+ * Built-in measurer, using a table of Helvetica font metrics. Characters
+ * outside of ASCII are given an average width, or a full em for wide (CJK)
+ * characters. Bold text is taken to be a tenth wider, and the font family is
+ * ignored.
+ */
+const fontMetrics: Measurer = {
+  width: (text, fontSize, fontFamily, bold) => {
+    let width = 0;
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      if (code >= 32 && code <= 126) {
+        width += helvetica[code - 32];
+      } else if (code >= 0x2e80) {
+        width += 1000;
+      } else {
+        width += 584;
+      }
+    }
+    return (width / 1000) * fontSize * (bold ? 1.1 : 1);
+  },
+  height: (fontSize) => 1.15 * fontSize,
+};
+
+/**
+ * Calculates the size of a node's content, as it is laid out by `render`:
+ * the node type, with any scripts, or feature structure, above a line of leaf
+ * data and a line for each of its glosses.
+ *
+ * @param tree Node to be measured (children are ignored).
+ * @param config
+ * @param measurer
+ * @returns Content `[width, height]`.
+ */
+function measureNode(
+  tree: Tree,
+  config: RenderConfig,
+  measurer: Measurer = fontMetrics
+): [number, number] {
+  const { spacing, style } = config;
+  const family = style.fontFamily;
+  let width = 0;
+  let height = 0;
+
+  if (tree.nodeType?.features) {
+    const avm = layoutAvm(tree.nodeType.features, style, measurer);
+    width = avm.width;
+    height = avm.height;
+  } else if (tree.nodeType) {
+    const nt = tree.nodeType;
+    width =
+      measurer.width(nt.name, style.fontSize.nodeType, family) +
+      measurer.width(nt.sub, style.fontSize.script, family) +
+      measurer.width(nt.sup, style.fontSize.script, family);
+    height = measurer.height(style.fontSize.nodeType, family);
+  }
+
+  if (tree.leaf) {
+    const size = style.fontSize.nodeData;
+    const top = dataOffset(tree, config, measurer) * size;
+    const lines = [tree.leaf as TextLine].concat(tree.leaf.glosses ?? []);
+    lines.forEach((line) => {
+      width = Math.max(width, measureLine(line, config, measurer));
+    });
+    const below = (lines.length - 1) * spacing.lineSpacing * size;
+    height = Math.max(height, top + below + measurer.height(size, family));
+  }
+
+  return [width, height];
+}
+
+/**
+ * How far beneath the top of a node its leaf data is set, in units of the
+ * leaf data font size (`em`). Data follows a node type by the line spacing,
+ * and a feature structure by the line spacing less a line.
+ *
+ * @param tree
+ * @param config
+ * @param measurer Used to size any feature structure.
+ * @returns Offset of the data.
+ */
+function dataOffset(
+  tree: Tree,
+  config: RenderConfig,
+  measurer: Measurer = fontMetrics
+): number {
+  const { spacing, style } = config;
+  const features = tree.nodeType?.features;
+  if (!features) {
+    return tree.nodeType ? spacing.lineSpacing : 0;
+  }
+  const avm = layoutAvm(features, style, measurer);
+  return avm.height / style.fontSize.nodeData + spacing.lineSpacing - 1;
+}
+
+/**
+ * Calculates the width of a line of text, such as leaf data, a gloss or a
+ * translation, set at the leaf data font size.
+ *
+ * @param line
+ * @param config
+ * @param measurer
+ * @returns Width of `line`.
+ */
+function measureLine(
+  line: TextLine,
+  config: RenderConfig,
+  measurer: Measurer = fontMetrics
+): number {
+  const runs = line.runs ?? [{ text: line.data }];
+  return runs.reduce((w, r) => w + measureRun(r, config.style, measurer), 0);
+}
+
+/**
+ * Width of a run of leaf data. Small caps are measured as capitals at four
+ * fifths of the size.
+ */
+function measureRun(
+  run: TextRun,
+  style: RenderConfig['style'],
+  measurer: Measurer
+) {
+  const size = runSize(run, style);
+  const family = style.fontFamily;
+  if (!run.smallCaps) {
+    return measurer.width(run.text, size, family, run.bold);
+  }
+
+  let width = 0;
+  for (let i = 0; i < run.text.length; i++) {
+    const c = run.text.charAt(i);
+    const upper = c.toUpperCase();
+    width +=
+      c === upper
+        ? measurer.width(c, size, family, run.bold)
+        : measurer.width(upper, 0.8 * size, family, run.bold);
+  }
+  return width;
+}
+
+export { Measurer, fontMetrics, measureNode, measureLine, dataOffset };
@@ -1,8 +1,29 @@
-import { Tree } from './tree';
+import {
+  Tree,
+  Arrow,
+  TextRun,
+  TextLine,
+  Avm,
+  Feature,
+  Example,
+  TreeDocument,
+} from './tree';
+import { ParseError, Span, locate } from './error';
 
+/**
+ * Tokens record the span of input they were read from, so errors may point
+ * back into the markup.
+ */
 type Token = {
   kind: TokenKind;
   value?: string;
+  start: number;
+  end: number;
+  /**
+   * Problem found while reading the token, such as an unclosed quote. The
+   * token is still usable, and the parser reports the error once it is read.
+   */
+  error?: string;
 };
 
 type TokenKind =
@@ -13,75 +34,472 @@ type TokenKind =
   | '^'
   | '['
   | ']'
+  | '#'
+  | '~'
+  | '<'
+  | '>'
+  | '{'
+  | '}'
+  | '='
+  | '|'
+  | '@'
+  | ','
   | 'WORD'
   | 'WHITESPACE'
   | 'EOF';
 
 /**
- * Parses a given string, returning a Tree object.
+ * Label given to nodes inserted in place of a missing node type, when parsing
+ * with `recover`.
+ */
+const PLACEHOLDER = '?';
+
+/**
+ * Tags which may open formatted text in leaf data, as in `{i text}`.
+ */
+const textStyles: {
+  [tag: string]: 'italic' | 'bold' | 'strike' | 'smallCaps';
+} = {
+  i: 'italic',
+  b: 'bold',
+  s: 'strike',
+  sc: 'smallCaps',
+};
+
+type ParseOptions = {
+  /**
+   * Rather than throwing on the first error, recover from it and continue.
+   * Unclosed brackets are closed, unexpected tokens are skipped, and missing
+   * node types are replaced with placeholder nodes.
+   */
+  recover?: boolean;
+};
+
+/**
+ * Result of a recovering parse: a best-effort tree, and every error which was
+ * recovered from along the way.
+ */
+type ParseResult = {
+  tree: Tree;
+  diagnostics: ParseError[];
+};
+
+/**
+ * Result of a recovering `parseDocument`.
+ */
+type DocumentResult = {
+  document: TreeDocument;
+  diagnostics: ParseError[];
+};
+
+/**
+ * Parses a given string, returning a Tree object. Macros may be defined before
+ * the tree, as in a document, but only one tree may be given.
+ *
+ * When `options.recover` is set, errors are collected rather than thrown, and
+ * a `ParseResult` is returned instead.
  *
  * @param input
+ * @param options
  * @returns Resulting tree.
+ * @throws {ParseError} If `input` is not valid markup, and not recovering.
+ */
+function parse(input: string): Tree;
+function parse(input: string, options: { recover: true }): ParseResult;
+function parse(input: string, options?: ParseOptions): Tree | ParseResult;
+function parse(input: string, options: ParseOptions = {}): Tree | ParseResult {
+  const { examples, diagnostics } = parseExamples(input, options, false);
+  const tree = examples[0].tree;
+  return options.recover ? { tree: tree, diagnostics: diagnostics } : tree;
+}
+
+/**
+ * Parses a document of any number of trees, each an example which may have a
+ * number and caption before it, as in `(1) A caption [S ...]`. Captions and
+ * translations end at the end of their line. Macros, defined between examples
+ * as in `@dp = [DP [D the] [N dog]]`, may be used in place of any node of a
+ * later tree or macro, as `@dp`. Names given with `#` are only known within
+ * their own tree.
+ *
+ * When `options.recover` is set, errors are collected rather than thrown, and
+ * a `DocumentResult` is returned instead.
+ *
+ * @param input
+ * @param options
+ * @returns Resulting document.
+ * @throws {ParseError} If `input` is not valid markup, and not recovering.
  */
-function parse(input: string) {
+function parseDocument(input: string): TreeDocument;
+function parseDocument(
+  input: string,
+  options: { recover: true }
+): DocumentResult;
+function parseDocument(
+  input: string,
+  options?: ParseOptions
+): TreeDocument | DocumentResult;
+function parseDocument(
+  input: string,
+  options: ParseOptions = {}
+): TreeDocument | DocumentResult {
+  const { examples, diagnostics } = parseExamples(input, options, true);
+  const doc = { examples: examples };
+  return options.recover ? { document: doc, diagnostics: diagnostics } : doc;
+}
+
+/**
+ * Parses the examples of a document, or when not `many`, the single tree of
+ * `parse`.
+ */
+function parseExamples(
+  input: string,
+  options: ParseOptions,
+  many: boolean
+): { examples: Example[]; diagnostics: ParseError[] } {
   const toks = tokenize(input);
   let tok_peek = toks.next().value;
+  /**
+   * Token kinds which would have been accepted at `tok_peek`. Cleared whenever
+   * a token is consumed, this is only used for error reporting.
+   */
+  let expected: TokenKind[] = [];
+  const diagnostics: ParseError[] = [];
+  /**
+   * End of the last consumed token (`consumed`), and of the last consumed
+   * token which was not whitespace (`end`). Used to close source spans.
+   */
+  let consumed = 0;
+  let end = 0;
+  /**
+   * Whether leaf data or another line of text is being read, in which `%`
+   * after whitespace is text rather than a comment. Passed to the tokenizer
+   * for each token it reads.
+   */
+  let inText = false;
+  /**
+   * Nodes named with `#` in the current tree, and the arrows and references
+   * (`[#name]`) which refer to them. Names may be used before or after the
+   * named node, so are only checked once the tree is parsed.
+   */
+  let names: { [name: string]: Tree } = Object.create(null);
+  let arrows: { owner: Tree; arrow: Arrow; span: Span }[] = [];
+  let refs: { ref: Tree; name: string; span: Span }[] = [];
+  /**
+   * Subtrees defined with `@name = [...]`, by name.
+   */
+  const macros: { [name: string]: Tree } = Object.create(null);
+
+  const examples: Example[] = [];
+  for (;;) {
+    accept_ws();
+    // A single tree must come after any macros it uses.
+    if (tok_peek.kind === '@' && (many || examples.length === 0)) {
+      define();
+      continue;
+    }
+    if (many ? accept('EOF') : examples.length > 0) {
+      break;
+    }
+    examples.push(example());
+  }
+  if (!many && !accept('EOF')) {
+    fail('Unexpected text after the root node');
+    while (tok_peek.kind !== 'EOF') {
+      advance();
+    }
+  }
+  return { examples: examples, diagnostics: diagnostics };
+
+  function advance() {
+    let tok = tok_peek;
+    if (tok.error) {
+      report(new ParseError(tok.error, input, tok, describe(tok)));
+    }
+    tok_peek = toks.next(inText).value;
+    // A comment after whitespace is read as whitespace of its own.
+    while (tok.kind === 'WHITESPACE' && tok_peek.kind === 'WHITESPACE') {
+      const value = (tok.value ?? '') + (tok_peek.value ?? '');
+      tok = { ...tok, value: value, end: tok_peek.end };
+      tok_peek = toks.next(inText).value;
+    }
+    expected = [];
+    consumed = tok.end;
+    if (tok.kind !== 'WHITESPACE') {
+      end = tok.end;
+    }
+    return tok;
+  }
 
-  const root = node();
-  accept_ws();
-  expect('EOF');
-  return root;
+  function hint(...tokenTypes: TokenKind[]) {
+    tokenTypes.forEach((t) => {
+      if (t !== 'WHITESPACE' && expected.indexOf(t) < 0) {
+        expected.push(t);
+      }
+    });
+  }
 
-  function accept(tokenType: string) {
+  function accept(tokenType: TokenKind) {
     accept_ws();
     return accept_ws(tokenType);
   }
 
-  function accept_ws(tokenType = 'WHITESPACE') {
+  function accept_ws(tokenType: TokenKind = 'WHITESPACE') {
+    hint(tokenType);
     let tok = null;
     if (tok_peek.kind === tokenType) {
-      tok = tok_peek;
-      tok_peek = toks.next().value;
+      tok = advance();
     }
     return tok;
   }
 
-  function expect(tokenType: string) {
+  function expect(tokenType: TokenKind, reason?: string) {
     const tok = accept(tokenType);
     if (!tok) {
-      throw 'Unexpected token!: ' + tok_peek.kind;
+      fail(reason);
     }
     return tok;
   }
 
-  function node() {
+  /**
+   * Reports an error at `tok_peek`. This throws, unless recovering, in which
+   * case the error is recorded and the caller is left to recover.
+   */
+  function fail(reason?: string) {
+    report(
+      new ParseError(
+        reason ?? 'Unexpected ' + describe(tok_peek),
+        input,
+        tok_peek,
+        describe(tok_peek),
+        expected.map(describeKind)
+      )
+    );
+  }
+
+  function report(err: ParseError) {
+    if (!options.recover) {
+      throw err;
+    }
+
+    // Several failed recoveries at one spot are only worth one diagnostic.
+    const last = diagnostics[diagnostics.length - 1];
+    if (!last || last.offset !== err.offset || last.message !== err.message) {
+      diagnostics.push(err);
+    }
+  }
+
+  /**
+   * Token kinds which may begin a node. Macros are only suggested in errors
+   * once any are defined.
+   */
+  function nodeStart(): TokenKind[] {
+    return Object.keys(macros).length > 0 ? ['[', '@'] : ['['];
+  }
+
+  /**
+   * Parses a tree, with its translation and, in a document, any number and
+   * caption before it.
+   */
+  function example(): Example {
+    names = Object.create(null);
+    arrows = [];
+    refs = [];
+    const start = tok_peek.start;
+    const ex = {} as Example;
+
+    if (many) {
+      const number = /^\((.+)\)$/.exec(tok_peek.value ?? '');
+      if (tok_peek.kind === 'WORD' && number) {
+        advance();
+        ex.number = number[1];
+        accept_ws();
+      }
+      if (tok_peek.kind !== '[' && tok_peek.kind !== 'EOF') {
+        const caption = line(true);
+        if (caption.data.trim() !== '') {
+          ex.caption = trimLine(caption);
+        }
+      }
+    }
+
+    ex.tree = node();
+    if (accept('|')) {
+      accept_ws();
+      ex.tree.translation = line(many);
+    }
+    checkArrows();
+    share(ex.tree);
+    ex.span = { start: start, end: Math.max(end, start) };
+    return ex;
+  }
+
+  /**
+   * Parses a macro definition, `@name = [...]`. Names given within a macro are
+   * only checked once it is used, but references must be to nodes within it.
+   */
+  function define() {
+    const start = tok_peek.start;
+    advance();
+    const name = accept_ws('WORD');
+    if (!name) {
+      fail("Missing macro name after '@'");
+    }
+    expect('=', "Missing '=' after macro name");
+
+    const outer = { names: names, arrows: arrows, refs: refs };
+    names = Object.create(null);
+    arrows = [];
+    refs = [];
+    const body = node();
+    share(body);
+    names = outer.names;
+    arrows = outer.arrows;
+    refs = outer.refs;
+
+    const key = name?.value;
+    if (key === undefined) {
+      return;
+    }
+    if (macros[key]) {
+      report(
+        new ParseError(
+          `Duplicate macro '@${key}'`,
+          input,
+          { start: start, end: name?.end ?? start },
+          `'${key}'`
+        )
+      );
+    } else {
+      macros[key] = body;
+    }
+  }
+
+  /**
+   * Parses the use of a macro, `@name`, returning a copy of its subtree. Spans
+   * in the copy are all that of its use, and its names and arrows are checked
+   * as though written there.
+   */
+  function expand(): Tree {
+    const start = tok_peek.start;
+    advance();
+    const name = accept_ws('WORD');
+    const span = { start: start, end: Math.max(end, start + 1) };
+    // Nodes with more than one parent are copied once, and stay shared.
+    const originals: Tree[] = [];
+    const copies: Tree[] = [];
+    const key = name?.value;
+    if (key === undefined) {
+      fail("Missing macro name after '@'");
+    } else if (!macros[key]) {
+      report(
+        new ParseError(
+          `Unknown macro '@${key}'`,
+          input,
+          span,
+          `'${key}'`,
+          Object.keys(macros).map((m) => `'@${m}'`)
+        )
+      );
+    } else {
+      return copy(macros[key]);
+    }
+    return {
+      ...Tree(),
+      nodeType: { name: PLACEHOLDER, sub: '', sup: '', span: span },
+      span: span,
+    };
+
+    function copy(n: Tree): Tree {
+      const i = originals.indexOf(n);
+      if (i >= 0) {
+        return copies[i];
+      }
+      const c: Tree = { ...n, span: span, children: [] };
+      originals.push(n);
+      copies.push(c);
+      c.children = n.children.map(copy);
+      if (n.classes) {
+        c.classes = n.classes.slice();
+      }
+      if (n.attrs) {
+        c.attrs = { ...n.attrs };
+      }
+      if (n.nodeType) {
+        c.nodeType = { ...n.nodeType, span: span };
+      }
+      if (n.leaf) {
+        c.leaf = { ...n.leaf, span: span };
+        if (n.leaf.glosses) {
+          c.leaf.glosses = n.leaf.glosses.map((g) => ({ ...g, span: span }));
+        }
+      }
+      if (n.id !== undefined) {
+        if (names[n.id]) {
+          report(
+            new ParseError(
+              `Duplicate node name '${n.id}'`,
+              input,
+              span,
+              `'${key}'`
+            )
+          );
+          delete c.id;
+        } else {
+          names[n.id] = c;
+        }
+      }
+      if (n.arrows) {
+        c.arrows = n.arrows.map((a) => ({ ...a, span: span }));
+        c.arrows.forEach((a) => {
+          arrows.push({ owner: c, arrow: a, span: span });
+        });
+      }
+      return c;
+    }
+  }
+
+  function node(): Tree {
+    accept_ws();
+    if (tok_peek.kind === '@') {
+      return expand();
+    }
+
     const root = Tree();
     let head = root;
+    // Nodes introduced by `.` shorthand, which end along with `root`.
+    const chain: Tree[] = [];
 
-    expect('[');
+    const start = tok_peek.start;
+    const open = expect('[');
     accept_ws();
-    if (tok_peek.kind == 'WORD') {
-      root.nodeType = nodeType();
+    if (tok_peek.kind == 'WORD' || tok_peek.kind === '[') {
+      label(root);
       while (accept('.')) {
         const newHead = Tree();
         head.children.push(newHead);
-        newHead.nodeType = nodeType();
+        label(newHead);
+        chain.push(newHead);
         head = newHead;
       }
 
+      hint(...nodeStart(), '*', '/', 'WORD');
       // + '' is to make typescript be quite...
       switch (tok_peek.kind as TokenKind) {
         case '[':
+        case '@':
+          checkLabel(head);
           head.children = nodeList();
           break;
         case '*': {
           const newHead = Tree();
           head.children.push(newHead);
           newHead.leaf = nodeData();
+          newHead.span = newHead.leaf.span;
           head = newHead;
           break;
         }
         case '.':
+        case '{':
         case '/':
         case '_':
         case '^':
@@ -89,106 +507,689 @@ function parse(input: string) {
           head.leaf = nodeData();
           break;
       }
+    } else if (accept('#')) {
+      // A reference to a named node, which is shared once the tree is parsed.
+      const name = expect('WORD', "Missing name after '#'");
+      if (name) {
+        refs.push({
+          ref: root,
+          name: name.value as string,
+          span: { start: start, end: name.end },
+        });
+      }
+    } else {
+      hint('WORD');
     }
 
-    expect(']');
+    let skipping = false;
+    while (!accept(']')) {
+      if (tok_peek.kind === 'EOF') {
+        if (open) {
+          const loc = locate(input, open.start);
+          fail(`Unclosed '[' opened at line ${loc.line}, column ${loc.column}`);
+        }
+        break;
+      }
 
+      // A run of skipped tokens is reported as a single error.
+      if (!skipping) {
+        fail();
+      }
+      if (tok_peek.kind === '[' || (tok_peek.kind as TokenKind) === '@') {
+        // A misplaced node is still kept, rather than losing its subtree.
+        head.children.push(node());
+        skipping = false;
+      } else {
+        advance();
+        skipping = true;
+      }
+    }
+
+    root.span = { start: start, end: end };
+    chain.forEach((n) => {
+      n.span = { start: n.nodeType?.span?.start ?? start, end: end };
+    });
     return root;
   }
 
-  function nodeType() {
-    const nt = { name: '', sub: '', sup: '' };
-    nt.name = expect('WORD').value as string;
+  /**
+   * Parses a node type onto `n`, followed by any name or arrows it is given.
+   */
+  function label(n: Tree) {
+    n.nodeType = nodeType();
+
+    for (;;) {
+      // As after the node type, data may follow.
+      inText = true;
+      accept_ws();
+      inText = false;
+      const start = tok_peek.start;
+      const spaced = start !== end;
+
+      if (accept('#')) {
+        const name = expect('WORD', "Missing name after '#'");
+        if (!name) {
+          continue;
+        }
+        const span = { start: start, end: name.end };
+        if (n.id !== undefined) {
+          report(new ParseError('Node is already named', input, span, `'#'`));
+        } else if (names[name.value as string]) {
+          report(
+            new ParseError(
+              `Duplicate node name '${name.value}'`,
+              input,
+              span,
+              `'${name.value}'`
+            )
+          );
+        } else {
+          names[name.value as string] = n;
+          n.id = name.value;
+        }
+        continue;
+      }
+
+      // Braces after whitespace open formatted leaf data instead.
+      if (!spaced && accept('{')) {
+        attributes(n, start);
+        continue;
+      }
+
+      const dashed = accept('~') !== null;
+      let head: Arrow['head'] | null = null;
+      if (accept('<')) {
+        head = accept('>') ? 'both' : 'source';
+      } else if (accept('>')) {
+        head = 'target';
+      }
+      if (!head) {
+        if (dashed) {
+          fail("Missing '<' or '>' after '~'");
+          continue;
+        }
+        return;
+      }
+
+      const target = expect('WORD', 'Missing name of arrow target');
+      if (target) {
+        const arrow = {
+          target: target.value as string,
+          head: head,
+          dashed: dashed,
+          span: { start: start, end: target.end },
+        };
+        n.arrows = n.arrows ?? [];
+        n.arrows.push(arrow);
+        arrows.push({ owner: n, arrow: arrow, span: arrow.span });
+      }
+    }
+  }
+
+  /**
+   * Parses the body of a `{...}` block onto `n`. Bare words are classes, and
+   * `key=value` pairs are attributes.
+   */
+  function attributes(n: Tree, start: number) {
+    for (;;) {
+      accept_ws();
+      const key = accept('WORD');
+      if (key) {
+        const name = key.value as string;
+        if (!accept('=')) {
+          n.classes = n.classes ?? [];
+          n.classes.push(name);
+          continue;
+        }
+        const value = expect('WORD', `Missing value for attribute '${name}'`);
+        if (!/^[A-Za-z][A-Za-z0-9_.-]*$/.test(name)) {
+          report(
+            new ParseError(
+              `Invalid attribute name '${name}'`,
+              input,
+              key,
+              `'${name}'`
+            )
+          );
+        } else if (name === 'start' || name === 'end') {
+          report(
+            new ParseError(
+              `Reserved attribute name '${name}'`,
+              input,
+              key,
+              `'${name}'`
+            )
+          );
+        } else if (value) {
+          n.attrs = n.attrs ?? {};
+          n.attrs[name] = value.value as string;
+        }
+        continue;
+      }
+
+      if (accept('}')) {
+        return;
+      }
+      if (tok_peek.kind === 'EOF' || tok_peek.kind === ']') {
+        const loc = locate(input, start);
+        fail(`Unclosed '{' opened at line ${loc.line}, column ${loc.column}`);
+        return;
+      }
+      fail();
+      advance();
+    }
+  }
+
+  /**
+   * Ensures every arrow points to a named node. When recovering, arrows to
+   * unknown nodes are dropped.
+   */
+  function checkArrows() {
+    arrows.forEach(({ owner, arrow, span }) => {
+      if (names[arrow.target]) {
+        return;
+      }
+      report(
+        new ParseError(
+          `Unknown node name '${arrow.target}'`,
+          input,
+          span,
+          `'${arrow.target}'`
+        )
+      );
+      owner.arrows = (owner.arrows ?? []).filter((a) => a !== arrow);
+      if (owner.arrows.length === 0) {
+        delete owner.arrows;
+      }
+    });
+  }
+
+  /**
+   * Replaces each reference in `tree`, `[#name]`, with the node it names,
+   * which then has more than one parent. A node may not dominate itself, so
+   * references to a node from within it are rejected. When recovering, bad
+   * references are dropped.
+   */
+  function share(tree: Tree) {
+    const nodes: Tree[] = [];
+    const visit = (n: Tree) => {
+      nodes.push(n);
+      n.children.forEach(visit);
+    };
+    visit(tree);
+    const contains = (n: Tree, m: Tree): boolean =>
+      n === m || n.children.some((c) => contains(c, m));
+
+    refs.forEach(({ ref, name, span }) => {
+      let target: Tree | undefined = names[name];
+      if (!target) {
+        report(
+          new ParseError(
+            `Unknown node name '${name}'`,
+            input,
+            span,
+            `'${name}'`
+          )
+        );
+      } else if (contains(target, ref)) {
+        report(
+          new ParseError(
+            `Node '${name}' can not dominate itself`,
+            input,
+            span,
+            `'${name}'`
+          )
+        );
+        target = undefined;
+      }
+      nodes.forEach((n) => {
+        if (n.children.indexOf(ref) >= 0) {
+          n.children = n.children
+            .map((c) => (c === ref ? target : c))
+            .filter((c): c is Tree => c !== undefined);
+        }
+      });
+    });
+  }
+
+  /**
+   * Parses a node type, or a feature structure in its place.
+   */
+  function nodeType(): NonNullable<Tree['nodeType']> {
+    accept_ws();
+    const nt = {
+      name: '',
+      sub: '',
+      sup: '',
+      span: { start: tok_peek.start, end: tok_peek.start },
+    };
+    // Data may follow the node type, in which `%` after whitespace is text.
+    if (tok_peek.kind === '[') {
+      const features = avm();
+      inText = true;
+      nt.span.end = Math.max(end, nt.span.start);
+      return { ...nt, features: features };
+    }
+    nt.name = expect('WORD')?.value ?? PLACEHOLDER;
+    inText = true;
 
     if (accept('_')) {
-      nt.sub = expect('WORD').value as string;
+      nt.sub = expect('WORD', "Missing subscript after '_'")?.value ?? '';
       if (accept('^')) {
-        nt.sup = expect('WORD').value as string;
+        nt.sup = expect('WORD', "Missing superscript after '^'")?.value ?? '';
       }
     } else if (accept('^')) {
-      nt.sup = expect('WORD').value as string;
+      nt.sup = expect('WORD', "Missing superscript after '^'")?.value ?? '';
       if (accept('_')) {
-        nt.sub = expect('WORD').value as string;
+        nt.sub = expect('WORD', "Missing subscript after '_'")?.value ?? '';
       }
     }
 
+    nt.span.end = Math.max(end, nt.span.start);
     return nt;
   }
 
+  /**
+   * Reports a feature structure of one feature labelling a node with children,
+   * as `[[NP a] [VP b]]` is more likely a node missing its node type. A
+   * trailing `,`, as in `[[CAT noun,] [N dog]]`, marks it as meant.
+   */
+  function checkLabel(n: Tree) {
+    const features = n.nodeType?.features;
+    const span = features?.span;
+    if (!span || features?.features.length !== 1) {
+      return;
+    }
+    const text = input.slice(span.start, span.end);
+    if (!/,\s*\]$/.test(text)) {
+      report(
+        new ParseError(
+          `Feature structure '${text}' has child nodes; ` +
+            "end it with ',' unless it is a node missing its type",
+          input,
+          span,
+          `'${text}'`
+        )
+      );
+    }
+  }
+
+  /**
+   * Parses an attribute-value matrix, `[NAME value, ...]`. Each value is text,
+   * a nested matrix, or a tag `#1` followed by either, or on its own.
+   */
+  function avm(): Avm {
+    const start = tok_peek.start;
+    advance();
+    const matrix: Avm = { features: [] };
+
+    for (;;) {
+      accept_ws();
+      if (accept(']')) {
+        break;
+      }
+      if (tok_peek.kind === 'EOF') {
+        const loc = locate(input, start);
+        fail(`Unclosed '[' opened at line ${loc.line}, column ${loc.column}`);
+        break;
+      }
+      if (matrix.features.length > 0 && !accept(',')) {
+        fail();
+        advance();
+        continue;
+      }
+      // A trailing `,` is allowed, to set a matrix apart from a node.
+      if (matrix.features.length > 0 && accept(']')) {
+        break;
+      }
+
+      accept_ws();
+      const name = expect('WORD', 'Missing feature name');
+      if (!name) {
+        if (tok_peek.kind !== ']') {
+          advance();
+        }
+        continue;
+      }
+      const feature: Feature = { name: name.value as string };
+      accept_ws();
+      if (accept_ws('#')) {
+        feature.tag = expect('WORD', "Missing tag after '#'")?.value;
+        accept_ws();
+      }
+      hint('[', 'WORD');
+      if (tok_peek.kind === '[') {
+        feature.value = avm();
+      } else if (tok_peek.kind === 'WORD') {
+        // Atomic values may be several words.
+        const words = [];
+        while (tok_peek.kind === 'WORD') {
+          words.push(advance().value as string);
+          accept_ws();
+        }
+        feature.value = words.join(' ');
+      } else if (feature.tag === undefined) {
+        fail(`Missing value for feature '${feature.name}'`);
+      }
+      matrix.features.push(feature);
+    }
+
+    matrix.span = { start: start, end: Math.max(end, start) };
+    return matrix;
+  }
+
   function nodeList() {
     const nodes = [];
 
     accept_ws();
-    while (tok_peek.kind === '[') {
+    hint(...nodeStart());
+    while (tok_peek.kind === '[' || tok_peek.kind === '@') {
       nodes.push(node());
       accept_ws();
+      hint(...nodeStart());
     }
 
     return nodes;
   }
 
-  function nodeData() {
-    let data = '';
+  function nodeData(): NonNullable<Tree['leaf']> {
+    let main: TextLine;
     let collapsed = false;
+    accept_ws();
+    const start = tok_peek.start;
 
     if (accept('/')) {
-      data = '∅';
+      main = { data: '∅' };
+      accept_ws();
     } else {
       if (accept('*')) {
         collapsed = true;
       }
-      data += expect('WORD').value;
-      while (
-        tok_peek.kind != '[' &&
-        tok_peek.kind != ']' &&
-        tok_peek.kind != 'EOF'
+      accept_ws();
+      hint('WORD', '{');
+      if (tok_peek.kind !== 'WORD' && tok_peek.kind !== '{') {
+        fail();
+      }
+      main = line();
+    }
+
+    const leaf: NonNullable<Tree['leaf']> = {
+      data: main.data,
+      isCollapsed: collapsed,
+    };
+    if (main.runs) {
+      leaf.runs = main.runs;
+    }
+    // Each `|` begins another tier, glossing the data.
+    while (accept_ws('|')) {
+      inText = true;
+      accept_ws();
+      leaf.glosses = leaf.glosses ?? [];
+      leaf.glosses.push(line());
+    }
+    leaf.span = { start: start, end: Math.max(consumed, start) };
+    return leaf;
+  }
+
+  /**
+   * Parses a line of text, such as leaf data or a gloss. Unless `ownLine`, the
+   * text may go on over several lines of markup.
+   */
+  function line(ownLine = false): TextLine {
+    const start = tok_peek.start;
+    const runs = text(ownLine);
+    const line: TextLine = {
+      data: runs.map((r) => r.text).join(''),
+      span: { start: start, end: Math.max(end, start) },
+    };
+    if (runs.some((r) => Object.keys(r).length > 1)) {
+      line.runs = runs;
+    }
+    return line;
+  }
+
+  /**
+   * Parses text up to the end of its node or line, as runs of like formatting.
+   * Text within `{i ...}`, `{b ...}`, `{s ...}` or `{sc ...}` is italic, bold,
+   * struck through or in small caps, and `_word` and `^word` are scripts.
+   */
+  function text(ownLine: boolean) {
+    const runs: TextRun[] = [];
+    const open: { format: Partial<TextRun>; start: number }[] = [];
+    let format: Partial<TextRun> = {};
+    inText = true;
+
+    while (
+      tok_peek.kind !== '[' &&
+      tok_peek.kind !== ']' &&
+      tok_peek.kind !== '|' &&
+      tok_peek.kind !== 'EOF' &&
+      !(
+        ownLine &&
+        /\n/.test(tok_peek.value ?? '') &&
+        tok_peek.kind === 'WHITESPACE'
+      )
+    ) {
+      const tok = advance();
+      if (tok.kind === 'WHITESPACE' && (tok_peek.kind as TokenKind) === '|') {
+        // Whitespace before a `|` only separates the lines.
+        continue;
+      } else if (tok.kind === '{') {
+        open.push({ format: format, start: tok.start });
+        const tag = accept_ws('WORD');
+        const style = tag?.value as string;
+        if (!tag) {
+          fail("Missing text style after '{'");
+        } else if (!Object.prototype.hasOwnProperty.call(textStyles, style)) {
+          report(
+            new ParseError(
+              `Unknown text style '${style}'`,
+              input,
+              tag,
+              `'${style}'`,
+              Object.keys(textStyles).map((s) => `'${s}'`)
+            )
+          );
+        } else {
+          format = { ...format, [textStyles[style]]: true };
+        }
+        // Only a single space separates the tag from its text.
+        const space = accept_ws();
+        if (space && (space.value as string).length > 1) {
+          push((space.value as string).slice(1), format);
+        }
+      } else if (tok.kind === '}') {
+        const last = open.pop();
+        if (last) {
+          format = last.format;
+        } else {
+          report(new ParseError("Unexpected '}'", input, tok, "'}'", ["']'"]));
+        }
+      } else if (
+        (tok.kind === '_' || tok.kind === '^') &&
+        tok_peek.kind === 'WORD'
       ) {
-        data += tok_peek.value ? tok_peek.value : tok_peek.kind;
-        tok_peek = toks.next().value;
+        const script = tok.kind === '_' ? 'sub' : 'sup';
+        push(advance().value as string, { ...format, script: script });
+      } else {
+        push(tok.value ?? tok.kind, format);
       }
     }
 
-    return { data: data, isCollapsed: collapsed };
+    if (open.length > 0) {
+      const loc = locate(input, open[open.length - 1].start);
+      fail(`Unclosed '{' opened at line ${loc.line}, column ${loc.column}`);
+    }
+    inText = false;
+    return runs;
+
+    function push(text: string, f: Partial<TextRun>) {
+      const last = runs[runs.length - 1];
+      const keys = ['italic', 'bold', 'strike', 'smallCaps', 'script'] as const;
+      if (last && keys.every((k) => last[k] === f[k])) {
+        last.text += text;
+      } else {
+        runs.push({ text: text, ...f });
+      }
+    }
+  }
+}
+
+/**
+ * Removes whitespace from the end of a line, such as that between a caption
+ * and the tree after it.
+ */
+function trimLine(line: TextLine): TextLine {
+  const trimmed = { ...line, data: line.data.replace(/\s+$/, '') };
+  if (line.runs) {
+    const runs = line.runs.slice();
+    const last = runs[runs.length - 1];
+    runs[runs.length - 1] = { ...last, text: last.text.replace(/\s+$/, '') };
+    trimmed.runs = runs.filter((r) => r.text !== '');
+  }
+  return trimmed;
+}
+
+/**
+ * Describes a token for use in error messages.
+ */
+function describe(tok: Token) {
+  return tok.kind === 'WORD' ? `'${tok.value}'` : describeKind(tok.kind);
+}
+
+function describeKind(kind: TokenKind) {
+  switch (kind) {
+    case 'WORD':
+      return 'word';
+    case 'WHITESPACE':
+      return 'whitespace';
+    case 'EOF':
+      return 'end of input';
+    default:
+      return `'${kind}'`;
   }
 }
 
 /**
  * Returns generator, producing tokens from an input string to be parsed.
  *
+ * Within a word, `\` escapes the character after it, and `"..."` quotes any
+ * text, including whitespace. Inside quotes only `\"` and `\\` need escaping.
+ * Either way the text is read literally, as part of the word. Comments, from
+ * `%` to the end of the line, are read as whitespace. A comment begins at the
+ * start of a line, or after whitespace unless reading text, as the parser
+ * tells the generator with each call to `next`. Whitespace ends before such a
+ * `%` on the same line, so that it is read with the next call, once the parser
+ * knows whether text follows. Any other `%` is read as part of a word, so that
+ * `50%` is data.
+ *
  * @param input
  * @returns Generator of tokens.
  */
-function* tokenize(input: string): Generator<Token, Token, void> {
+function* tokenize(input: string): Generator<Token, Token, boolean | void> {
   const whitespace = /\s/;
-  const symbols = /[.*/_^[\]]/;
+  const symbols = /[.*/_^[\]#~<>{}=|@,]/;
   let cur = 0;
+  let inText = false;
 
   while (cur < input.length) {
     if (symbols.test(input[cur])) {
-      yield { kind: input[cur] as TokenKind };
+      const tok = { kind: input[cur] as TokenKind, start: cur, end: cur + 1 };
       cur++;
-    } else if (whitespace.test(input[cur])) {
-      const tok = { kind: 'WHITESPACE' as const, value: '' };
-      while (whitespace.test(input[cur])) {
+      inText = (yield tok) === true;
+    } else if (whitespace.test(input[cur]) || comment(cur)) {
+      const tok = {
+        kind: 'WHITESPACE' as const,
+        value: '',
+        start: cur,
+        end: 0,
+      };
+      while (
+        whitespace.test(input[cur]) ||
+        (comment(cur) && (cur === tok.start || lineStart(cur)))
+      ) {
+        if (input[cur] === '%') {
+          while (cur < input.length && input[cur] !== '\n') {
+            cur++;
+          }
+          continue;
+        }
         tok.value = tok.value.concat(input[cur]);
         cur++;
       }
-      yield tok;
+      tok.end = cur;
+      inText = (yield tok) === true;
     } else {
-      const tok = { kind: 'WORD' as const, value: '' };
+      const tok: Token = { kind: 'WORD', value: '', start: cur, end: 0 };
+      let value = '';
       while (
         cur < input.length &&
         !symbols.test(input[cur]) &&
         !whitespace.test(input[cur])
       ) {
-        tok.value = tok.value.concat(input[cur]);
-        cur++;
+        if (input[cur] === '\\') {
+          if (cur + 1 < input.length) {
+            value += input[cur + 1];
+          } else {
+            tok.error = "Missing character after '\\'";
+          }
+          cur += 2;
+        } else if (input[cur] === '"') {
+          const open = cur++;
+          while (cur < input.length && input[cur] !== '"') {
+            if (input[cur] === '\\' && cur + 1 < input.length) {
+              cur++;
+            }
+            value += input[cur++];
+          }
+          if (cur >= input.length) {
+            const loc = locate(input, open);
+            tok.error = `Unclosed '"' opened at line ${loc.line}, column ${loc.column}`;
+          }
+          cur++;
+        } else {
+          value += input[cur++];
+        }
       }
-      yield tok;
+      cur = Math.min(cur, input.length);
+      tok.value = value;
+      tok.end = cur;
+      inText = (yield tok) === true;
     }
   }
 
-  return { kind: 'EOF' as const };
+  return { kind: 'EOF' as const, start: cur, end: cur };
+
+  /**
+   * Whether a `%` at `at` begins a comment.
+   */
+  function comment(at: number) {
+    return (
+      input[at] === '%' &&
+      (lineStart(at) || (!inText && at > 0 && whitespace.test(input[at - 1])))
+    );
+  }
+
+  /**
+   * Whether only whitespace comes before `at` on its line.
+   */
+  function lineStart(at: number) {
+    let i = at - 1;
+    while (i >= 0 && input[i] !== '\n' && whitespace.test(input[i])) {
+      i--;
+    }
+    return i < 0 || input[i] === '\n';
+  }
 }
 
-export { tokenize, parse };
+export {
+  Token,
+  TokenKind,
+  ParseOptions,
+  ParseResult,
+  DocumentResult,
+  textStyles,
+  tokenize,
+  parse,
+  parseDocument,
+};
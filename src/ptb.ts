@@ -0,0 +1,183 @@
+import { Tree } from './tree';
+import { ParseError, locate } from './error';
+
+type PTBToken = {
+  kind: '(' | ')' | 'ATOM' | 'EOF';
+  value: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * Escaped brackets used for words in the Penn Treebank.
+ */
+const brackets: { [word: string]: string } = {
+  '-LRB-': '(',
+  '-RRB-': ')',
+  '-LCB-': '{',
+  '-RCB-': '}',
+  '-LSB-': '[',
+  '-RSB-': ']',
+};
+
+/**
+ * Parses Penn Treebank (s-expression) bracketed trees, such as
+ * `(S (NP (DT the) (NN dog)) (VP (VBD barked)))`, into Tree objects.
+ *
+ * Labels are split into a node type, with functional tags as a superscript
+ * and co-indices as a subscript (`NP-SBJ-1` becomes NP with `SBJ` and `1`).
+ * Empty elements (`-NONE-`) become ∅ data, and any index they carry is given
+ * to their parent. An unlabeled outer bracket around a single tree is dropped.
+ *
+ * @param input Any number of bracketed trees.
+ * @returns The trees, in order.
+ * @throws {ParseError} If `input` is malformed.
+ */
+function parsePTB(input: string): Tree[] {
+  const toks = tokenizePTB(input);
+  let pos = 0;
+  const trees: Tree[] = [];
+
+  while (peek().kind !== 'EOF') {
+    if (peek().kind !== '(') {
+      throw error(["'('", 'end of input']);
+    }
+    const root = node().tree;
+    trees.push(
+      !root.nodeType && !root.leaf && root.children.length === 1
+        ? root.children[0]
+        : root
+    );
+  }
+  return trees;
+
+  function peek() {
+    return toks[pos];
+  }
+
+  function error(expected: string[], reason?: string) {
+    const tok = peek();
+    const found = tok.kind === 'EOF' ? 'end of input' : `'${tok.value}'`;
+    return new ParseError(
+      reason ?? 'Unexpected ' + found,
+      input,
+      tok,
+      found,
+      expected
+    );
+  }
+
+  /**
+   * Parses one bracketed node. Empty elements are returned as an untyped ∅
+   * leaf, along with their index, so that the parent may take them over.
+   */
+  function node(): { tree: Tree; empty: boolean; index: string } {
+    const open = toks[pos++];
+    const tree = Tree();
+    let label = null;
+    let word = null;
+    const children = [];
+
+    if (peek().kind === 'ATOM') {
+      label = toks[pos++];
+      tree.nodeType = { ...splitLabel(label.value), span: span(label) };
+    }
+    if (label && peek().kind === 'ATOM') {
+      word = toks[pos++];
+      tree.leaf = {
+        data: brackets[word.value] ?? word.value,
+        isCollapsed: false,
+        span: span(word),
+      };
+    } else {
+      while (peek().kind === '(') {
+        children.push(node());
+      }
+    }
+
+    if (peek().kind !== ')') {
+      const expected = word || !label ? ["')'"] : ["'('", "')'", 'word'];
+      if (peek().kind === 'EOF') {
+        const loc = locate(input, open.start);
+        throw error(
+          expected,
+          `Unclosed '(' opened at line ${loc.line}, column ${loc.column}`
+        );
+      }
+      throw error(expected);
+    }
+    const close = toks[pos++];
+    tree.span = { start: open.start, end: close.end };
+
+    // A lone empty element becomes its parent's data.
+    if (children.length === 1 && children[0].empty && tree.nodeType) {
+      tree.leaf = children[0].tree.leaf;
+      tree.nodeType.sub = tree.nodeType.sub || children[0].index;
+    } else {
+      tree.children = children.map((c) => c.tree);
+    }
+
+    if (label?.value === '-NONE-') {
+      const index = word?.value.match(/-(\d+)$/);
+      return {
+        tree: {
+          children: [],
+          leaf: { data: '∅', isCollapsed: false, span: tree.span },
+          span: tree.span,
+        },
+        empty: true,
+        index: index ? index[1] : '',
+      };
+    }
+    return { tree: tree, empty: false, index: '' };
+  }
+
+  function span(tok: PTBToken) {
+    return { start: tok.start, end: tok.end };
+  }
+}
+
+/**
+ * Splits a label such as `NP-SBJ-1` into its category (`NP`), functional tags
+ * (`SBJ`, as a superscript) and indices (`1`, as a subscript). Labels which are
+ * themselves wrapped in dashes, like `-NONE-`, are left whole.
+ */
+function splitLabel(label: string) {
+  const m = label.match(/^([^-=]+)((?:[-=][^-=]+)*)$/);
+  if (!m) {
+    return { name: label, sub: '', sup: '' };
+  }
+
+  const parts = m[2] === '' ? [] : m[2].slice(1).split(/[-=]/);
+  return {
+    name: m[1],
+    sub: parts.filter((p) => /^\d+$/.test(p)).join(','),
+    sup: parts.filter((p) => !/^\d+$/.test(p)).join('-'),
+  };
+}
+
+function tokenizePTB(input: string): PTBToken[] {
+  const toks: PTBToken[] = [];
+  const re = /\s+|[()]|[^\s()]+/g;
+  let m;
+  while ((m = re.exec(input)) !== null) {
+    if (/^\s/.test(m[0])) {
+      continue;
+    }
+    toks.push({
+      kind: m[0] === '(' || m[0] === ')' ? m[0] : 'ATOM',
+      value: m[0],
+      start: m.index,
+      end: m.index + m[0].length,
+    });
+  }
+  toks.push({
+    kind: 'EOF',
+    value: '',
+    start: input.length,
+    end: input.length,
+  });
+  return toks;
+}
+
+export { parsePTB };
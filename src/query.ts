@@ -0,0 +1,505 @@
+import { Tree } from './tree';
+import { ParseError, locate } from './error';
+
+type SelectorToken = {
+  kind:
+    | 'WORD'
+    | 'QUOTED'
+    | 'WS'
+    | 'EOF'
+    | '>'
+    | '~'
+    | '_'
+    | '^'
+    | '#'
+    | '.'
+    | '='
+    | '*';
+  value: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * What a single node must have to match one step of a selector. Fields left
+ * out match anything.
+ */
+type Compound = {
+  name?: string;
+  sub?: string;
+  sup?: string;
+  id?: string;
+  classes: string[];
+  text?: string;
+};
+
+/**
+ * One step of a selector, and how it relates to the step before it: `' '` for
+ * any ancestor, `'>'` for the parent, and `'~'` for a sister.
+ */
+type Step = { combinator: ' ' | '>' | '~'; compound: Compound };
+
+/**
+ * Splits a node type name into its category and bar level suffix.
+ */
+const projection = /^(.+?)(P|'+|′+|-?bar|0)$/;
+
+/**
+ * Every node of `tree`, in pre-order, starting with `tree` itself. Nodes with
+ * more than one parent are listed once, where they are first reached.
+ *
+ * @param tree
+ * @returns Nodes of the tree.
+ */
+function descendants(tree: Tree): Tree[] {
+  const nodes: Tree[] = [];
+  visit(tree);
+  return nodes;
+
+  function visit(n: Tree) {
+    if (nodes.indexOf(n) < 0) {
+      nodes.push(n);
+      n.children.forEach(visit);
+    }
+  }
+}
+
+/**
+ * Path of nodes from `root` down to `node`, inclusive. Of a node with more
+ * than one parent, this is the first path in pre-order; see `pathsTo`.
+ *
+ * @param root
+ * @param node
+ * @returns The path, or `undefined` if `node` is not in `root`.
+ */
+function pathTo(root: Tree, node: Tree): Tree[] | undefined {
+  if (root === node) {
+    return [root];
+  }
+  for (const child of root.children) {
+    const path = pathTo(child, node);
+    if (path) {
+      return [root].concat(path);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Every path of nodes from `root` down to `node`, inclusive, in pre-order.
+ * Only a node with more than one parent, or one below it, has more than one.
+ *
+ * @param root
+ * @param node
+ * @returns The paths, or an empty list if `node` is not in `root`.
+ */
+function pathsTo(root: Tree, node: Tree): Tree[][] {
+  if (root === node) {
+    return [[root]];
+  }
+  const paths: Tree[][] = [];
+  root.children.forEach((child) => {
+    pathsTo(child, node).forEach((path) => paths.push([root].concat(path)));
+  });
+  return paths;
+}
+
+/**
+ * @param root
+ * @param node
+ * @returns Parent of `node`, or `undefined` if it is `root` or not in `root`.
+ *   Of a node with more than one parent, this is the first in pre-order.
+ */
+function parentOf(root: Tree, node: Tree): Tree | undefined {
+  const path = pathTo(root, node) ?? [];
+  return path[path.length - 2];
+}
+
+/**
+ * Every parent of `node`, in pre-order. Only nodes with more than one parent
+ * (multidominance) have more than one.
+ *
+ * @param root
+ * @param node
+ * @returns The parents, or an empty list if `node` is `root` or not in `root`.
+ */
+function parentsOf(root: Tree, node: Tree): Tree[] {
+  return descendants(root).filter((n) => n.children.indexOf(node) >= 0);
+}
+
+/**
+ * Ancestors of `node`, from its parent up to `root`. Those of a node with
+ * more than one parent are listed up each of its paths in turn, each once.
+ *
+ * @param root
+ * @param node
+ * @returns The ancestors, or an empty list if `node` is not in `root`.
+ */
+function ancestors(root: Tree, node: Tree): Tree[] {
+  const found: Tree[] = [];
+  pathsTo(root, node).forEach((path) => {
+    path
+      .slice(0, -1)
+      .reverse()
+      .forEach((n) => {
+        if (found.indexOf(n) < 0) {
+          found.push(n);
+        }
+      });
+  });
+  return found;
+}
+
+/**
+ * Whether `a` dominates `b`: `b` is a descendant of `a`, other than `a` itself.
+ */
+function dominates(a: Tree, b: Tree): boolean {
+  return a !== b && pathTo(a, b) !== undefined;
+}
+
+/**
+ * Whether `b` is a child of `a`.
+ */
+function immediatelyDominates(a: Tree, b: Tree): boolean {
+  return a.children.indexOf(b) >= 0;
+}
+
+/**
+ * Whether `a` and `b` are distinct nodes with a parent in common.
+ */
+function sisters(root: Tree, a: Tree, b: Tree): boolean {
+  return a !== b && parentsOf(root, a).some((p) => immediatelyDominates(p, b));
+}
+
+/**
+ * Lowest node which is, or dominates, both `a` and `b`. Nodes with more than
+ * one parent are taken at the first of their paths, as by `pathTo`.
+ *
+ * @param root
+ * @param a
+ * @param b
+ * @returns The common ancestor, or `undefined` if either is not in `root`.
+ */
+function lowestCommonAncestor(root: Tree, a: Tree, b: Tree): Tree | undefined {
+  const pa = pathTo(root, a);
+  const pb = pathTo(root, b);
+  if (!pa || !pb) {
+    return undefined;
+  }
+  let i = 0;
+  while (i < pa.length && pa[i] === pb[i]) {
+    i++;
+  }
+  return pa[i - 1];
+}
+
+/**
+ * Whether `a` c-commands `b`: neither dominates the other, and the first
+ * branching node dominating `a` also dominates `b`. A node with more than
+ * one parent c-commands from each of its positions.
+ */
+function cCommands(root: Tree, a: Tree, b: Tree): boolean {
+  if (a === b || dominates(a, b) || dominates(b, a)) {
+    return false;
+  }
+  return pathsTo(root, a).some((path) => {
+    const above = path.slice(0, -1).reverse();
+    const branching = above.filter((n) => n.children.length > 1);
+    return branching.length > 0 && dominates(branching[0], b);
+  });
+}
+
+/**
+ * Category of a node type, with any bar level taken off: `NP`, `N'`, `N-bar`
+ * and `N0` are all of category `N`.
+ */
+function category(tree: Tree): string {
+  const name = tree.nodeType?.name ?? '';
+  const m = name.match(projection);
+  return m ? m[1] : name;
+}
+
+/**
+ * Bar level of a node type: 2 for phrases (`NP`), 1 for intermediate
+ * projections (`N'`, `N-bar`), and 0 for heads (`N`, `N0`).
+ */
+function barLevel(tree: Tree): number {
+  const m = (tree.nodeType?.name ?? '').match(projection);
+  if (!m || m[2] === '0') {
+    return 0;
+  }
+  return m[2] === 'P' ? 2 : 1;
+}
+
+/**
+ * Highest projection of `head`: the last of its ancestors reached while each
+ * is of the same category as the one below. A head with more than one parent
+ * is projected along the first of its paths, as by `pathTo`.
+ *
+ * @param root
+ * @param head
+ * @returns The maximal projection, which is `head` itself if its parent is
+ *   of another category.
+ */
+function maximalProjection(root: Tree, head: Tree): Tree {
+  let max = head;
+  for (const n of (pathTo(root, head) ?? []).slice(0, -1).reverse()) {
+    if (category(n) !== category(head)) {
+      break;
+    }
+    max = n;
+  }
+  return max;
+}
+
+/**
+ * Finds the nodes of `tree` matching `selector`, in pre-order.
+ *
+ * A selector is a list of steps, each of which a node must match, separated
+ * by how the nodes of each step are related:
+ *
+ * - `A B`: a `B` with an `A` as an ancestor.
+ * - `A > B`: a `B` with an `A` as its parent.
+ * - `A ~ B`: a `B` with an `A` as a sister.
+ *
+ * Each step is a node type name (or `*` for any node), followed by any of:
+ * `_sub` and `^sup` for its scripts, `#id`, `.class`, and `=text` or
+ * `="some text"` for its leaf data. For example, `VP > NP_i` or `*="dog"`.
+ *
+ * A node with more than one parent matches if it does along any of its paths,
+ * and is found once.
+ *
+ * @param tree
+ * @param selector
+ * @returns Matching nodes.
+ * @throws {ParseError} If `selector` is malformed.
+ */
+function query(tree: Tree, selector: string): Tree[] {
+  const steps = parseSelector(selector);
+  const found: Tree[] = [];
+  walk([tree]);
+  return descendants(tree).filter((n) => found.indexOf(n) >= 0);
+
+  function walk(path: Tree[]) {
+    const node = path[path.length - 1];
+    if (found.indexOf(node) < 0 && matchesAt(path, steps)) {
+      found.push(node);
+    }
+    node.children.forEach((c) => walk(path.concat(c)));
+  }
+}
+
+/**
+ * Whether `node`, within `root`, matches `selector` along any of its paths.
+ *
+ * @throws {ParseError} If `selector` is malformed.
+ */
+function matches(root: Tree, node: Tree, selector: string): boolean {
+  const steps = parseSelector(selector);
+  return pathsTo(root, node).some((path) => matchesAt(path, steps));
+}
+
+/**
+ * Whether the last node of `path` matches the last of `steps`, with the rest
+ * of the steps matched by its relatives.
+ */
+function matchesAt(path: Tree[], steps: Step[]): boolean {
+  const last = steps[steps.length - 1];
+  const node = path[path.length - 1];
+  if (!matchesCompound(node, last.compound)) {
+    return false;
+  }
+  if (steps.length === 1) {
+    return true;
+  }
+
+  const rest = steps.slice(0, -1);
+  const above = path.slice(0, -1);
+  switch (last.combinator) {
+    case '>':
+      return above.length > 0 && matchesAt(above, rest);
+    case ' ':
+      return above.some((_, i) => matchesAt(above.slice(0, i + 1), rest));
+    case '~':
+      return (
+        above.length > 0 &&
+        above[above.length - 1].children.some(
+          (s) => s !== node && matchesAt(above.concat(s), rest)
+        )
+      );
+  }
+}
+
+function matchesCompound(node: Tree, c: Compound): boolean {
+  const nt = node.nodeType;
+  return (
+    (c.name === undefined || nt?.name === c.name) &&
+    (c.sub === undefined || nt?.sub === c.sub) &&
+    (c.sup === undefined || nt?.sup === c.sup) &&
+    (c.id === undefined || node.id === c.id) &&
+    c.classes.every((cls) => (node.classes ?? []).indexOf(cls) >= 0) &&
+    (c.text === undefined || node.leaf?.data === c.text)
+  );
+}
+
+function parseSelector(selector: string): Step[] {
+  const toks = tokenizeSelector(selector);
+  let pos = 0;
+  const steps: Step[] = [];
+
+  skipWS();
+  steps.push({ combinator: ' ', compound: compound() });
+  while (peek().kind !== 'EOF') {
+    const spaced = skipWS();
+    const kind = peek().kind;
+    if (kind === '>' || kind === '~') {
+      pos++;
+      skipWS();
+      steps.push({ combinator: kind, compound: compound() });
+    } else if (kind !== 'EOF') {
+      if (!spaced) {
+        throw error(["'>'", "'~'", 'end of selector']);
+      }
+      steps.push({ combinator: ' ', compound: compound() });
+    }
+  }
+  return steps;
+
+  function peek() {
+    return toks[pos];
+  }
+
+  function skipWS() {
+    const spaced = peek().kind === 'WS';
+    if (spaced) {
+      pos++;
+    }
+    return spaced;
+  }
+
+  function error(expected: string[], reason?: string) {
+    const tok = peek();
+    const found = tok.kind === 'EOF' ? 'end of selector' : `'${tok.value}'`;
+    return new ParseError(
+      reason ?? 'Unexpected ' + found,
+      selector,
+      tok,
+      found,
+      expected
+    );
+  }
+
+  function word(after: string) {
+    const tok = peek();
+    if (tok.kind !== 'WORD') {
+      throw error(['word'], `Missing word after '${after}'`);
+    }
+    pos++;
+    return tok.value;
+  }
+
+  function compound(): Compound {
+    const c: Compound = { classes: [] };
+    const first = peek();
+    if (first.kind === 'WORD') {
+      c.name = first.value;
+      pos++;
+    } else if (first.kind === '*') {
+      pos++;
+    } else {
+      throw error(['node type', "'*'"]);
+    }
+
+    for (;;) {
+      const tok = peek();
+      switch (tok.kind) {
+        case '_':
+          pos++;
+          c.sub = word('_');
+          break;
+        case '^':
+          pos++;
+          c.sup = word('^');
+          break;
+        case '#':
+          pos++;
+          c.id = word('#');
+          break;
+        case '.':
+          pos++;
+          c.classes.push(word('.'));
+          break;
+        case '=':
+          pos++;
+          if (peek().kind === 'QUOTED') {
+            c.text = toks[pos++].value;
+          } else {
+            c.text = word('=');
+          }
+          break;
+        default:
+          return c;
+      }
+    }
+  }
+}
+
+function tokenizeSelector(selector: string): SelectorToken[] {
+  const toks: SelectorToken[] = [];
+  const re = /\s+|"[^"]*"?|[>~_^#.=*]|[^\s>~_^#.=*"]+/g;
+  let m;
+  while ((m = re.exec(selector)) !== null) {
+    const start = m.index;
+    const end = start + m[0].length;
+    if (m[0].charAt(0) === '"') {
+      if (m[0].length < 2 || m[0].charAt(m[0].length - 1) !== '"') {
+        const loc = locate(selector, start);
+        throw new ParseError(
+          `Unclosed '"' opened at line ${loc.line}, column ${loc.column}`,
+          selector,
+          { start: selector.length, end: selector.length },
+          'end of selector',
+          ["'\"'"]
+        );
+      }
+      toks.push({ kind: 'QUOTED', value: m[0].slice(1, -1), start, end });
+    } else if (/^\s/.test(m[0])) {
+      toks.push({ kind: 'WS', value: m[0], start, end });
+    } else if (/^[>~_^#.=*]$/.test(m[0])) {
+      toks.push({
+        kind: m[0] as SelectorToken['kind'],
+        value: m[0],
+        start,
+        end,
+      });
+    } else {
+      toks.push({ kind: 'WORD', value: m[0], start, end });
+    }
+  }
+  toks.push({
+    kind: 'EOF',
+    value: '',
+    start: selector.length,
+    end: selector.length,
+  });
+  return toks;
+}
+
+export {
+  descendants,
+  pathTo,
+  pathsTo,
+  parentOf,
+  parentsOf,
+  ancestors,
+  dominates,
+  immediatelyDominates,
+  sisters,
+  lowestCommonAncestor,
+  cCommands,
+  category,
+  barLevel,
+  maximalProjection,
+  query,
+  matches,
+};
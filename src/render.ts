@@ -1,319 +1,1153 @@
-import { Tree } from './tree';
-import { Selection } from 'd3-selection';
-import { flextree, FlexHierarchy } from 'd3-flextree';
-
-type Div = Selection<HTMLDivElement, string, HTMLElement, undefined>;
-type SVG = Selection<SVGSVGElement, string, HTMLElement, undefined>;
-interface TreeWithSize extends Tree {
-  size: [number, number];
-}
-type Hierarchy = FlexHierarchy<TreeWithSize>;
+import { Tree, TextLine, TreeDocument, Avm } from './tree';
+import { RenderOptions, makeConfig } from './config';
+import {
+  Hierarchy,
+  Link,
+  ArrowPath,
+  arrowhead,
+  nextIds,
+  classNames,
+  dataAttrs,
+  runAttrs,
+  makeGeometry,
+  makeLayout,
+  linkLine,
+  linkTriangle,
+  layoutChildren,
+  calcSharedLinks,
+  calcArrows,
+  calcTranslation,
+  calcViewBox,
+  TranslationBox,
+} from './layout';
+import {
+  BaseType,
+  Selection,
+  event,
+  local,
+  namespaces,
+  select,
+} from 'd3-selection';
+import 'd3-transition';
+import {
+  title,
+  description,
+  treeItemAttrs,
+  typeName,
+  yieldOf,
+} from './describe';
+import { Measurer, dataOffset } from './measure';
+import { layoutAvm, bracketPath } from './avm';
+import { TreeDiff, diffTrees, markDiff, overlayDiff } from './diff';
 
-const defaultSpacing = {
-  /**
-   * Individual node padding (always centered).
-   */
-  padding: {
-    x: 0.0,
-    y: 0.25,
-  },
-  /**
-   * Individual node margin (always centered).
-   */
-  margin: {
-    x: 0.75,
-    y: 1,
-  },
-  /**
-   * Line Spacing within a node.
-   */
-  lineSpacing: 1.2,
+type Div = Selection<HTMLDivElement, string, HTMLElement | null, undefined>;
+type SVG = Selection<SVGSVGElement, unknown, null, undefined>;
+type Nodes = Selection<SVGGElement, Hierarchy, BaseType, unknown>;
+type Links = Selection<SVGElement, Link, BaseType, unknown>;
+type Arrows = Selection<SVGPathElement, ArrowPath, BaseType, unknown>;
+
+/**
+ * What selections and transitions have in common, so that elements may be
+ * placed either at once or with an animation.
+ */
+type Placeable<D> = {
+  attr(name: string, value: string | number): Placeable<D>;
+  attr(
+    name: string,
+    value: (d: D, i: number) => string | number | null
+  ): Placeable<D>;
 };
 
-const defaultStyle = {
-  strokeWidth: 0.05,
+/**
+ * Content last written into each node's `<g>`, so that unchanged nodes are
+ * not rewritten on re-render.
+ */
+const content = local<string>();
+
+/**
+ * State of an SVG whose nodes may be folded: the tree as given, and the keys
+ * of the folded nodes.
+ */
+type Folding = {
+  tree: Tree;
+  options: RenderOptions;
+  folded: { [key: string]: boolean };
 };
 
+const folding = local<Folding>();
+
+/**
+ * Keyboard navigation state of an SVG: the options it was drawn with, and the
+ * key of the node focused when tabbing into the tree.
+ */
+type Navigation = { options: RenderOptions; focus: string };
+
+const navigation = local<Navigation>();
+
 /**
  * Appends an SVG to `div`, in which `tree` will be rendered as a visual syntax
- * tree.
+ * tree. Given a document, as parsed by `parseDocument`, each of its trees is
+ * rendered as a numbered example instead, as by `renderExamples`.
  *
  * TODO: Maybe have the argument be a plain div, and not a d3 selection. That
  *       way any ol tool could be used.
  *
  * @param {Tree} tree Tree to be rendered into SVG.
  * @param {Selection} div `<div>` in which to append the Tree SVG.
+ * @param {RenderOptions} options Spacing and style, merged over the defaults.
  * @return {Hierachy} Hierarchy is returned, for any future processing the user
- *   might want to do.
+ *   might want to do. For a document, that of each example is returned.
  */
-export function render(tree: Tree, div: Div) {
-  // TODO: Eventually these will be merged with a config argument
-  const spacing = defaultSpacing;
-  const style = defaultStyle;
-
-  const geom = {
-    /**
-     * Bounding Box after applying margin to `pBox`. This should follow nodeSize.
-     */
-    mBox: {
-      x1: (n: Hierarchy) => n.left,
-      y1: (n: Hierarchy) => n.top,
-      x2: (n: Hierarchy) => n.right,
-      y2: (n: Hierarchy) => n.bottom,
-      width: (n: Hierarchy) => geom.mBox.x2(n) - geom.mBox.x1(n),
-      height: (n: Hierarchy) => geom.mBox.y2(n) - geom.mBox.y1(n),
-    },
-
-    /**
-     * Bounding Box after applying padding to the content, `cBox`. This is the
-     * nodeSize with the margin removed.
-     */
-    pBox: {
-      x1: (n: Hierarchy) => n.left + spacing.margin.x,
-      y1: (n: Hierarchy) => n.top + spacing.margin.y,
-      x2: (n: Hierarchy) => n.right - spacing.margin.x,
-      y2: (n: Hierarchy) => n.bottom - spacing.margin.y,
-      width: (n: Hierarchy) => geom.pBox.x2(n) - geom.pBox.x1(n),
-      height: (n: Hierarchy) => geom.pBox.y2(n) - geom.pBox.y1(n),
-    },
-
-    /**
-     * Bounding Box for the node content, before padding and margin.
-     */
-    cBox: {
-      x1: (n: Hierarchy) => n.left + spacing.margin.x + spacing.padding.x,
-      y1: (n: Hierarchy) => n.top + spacing.margin.y + spacing.padding.y,
-      x2: (n: Hierarchy) => n.right - spacing.margin.x - spacing.padding.x,
-      y2: (n: Hierarchy) => n.bottom - spacing.margin.y - spacing.padding.x,
-      width: (n: Hierarchy) => geom.cBox.x2(n) - geom.cBox.x1(n),
-      height: (n: Hierarchy) => geom.cBox.y2(n) - geom.cBox.y1(n),
-    },
-
-    centerX: (n: Hierarchy) => n.x,
-
-    calcApplySpacing: (n: Hierarchy): [number, number] => [
-      n.data.size[0] + 2 * (spacing.padding.x + spacing.margin.x),
-      n.data.size[1] + 2 * (spacing.padding.y + spacing.margin.y),
-    ],
-  };
+export function render(
+  tree: Tree,
+  div: Div,
+  options?: RenderOptions
+): Hierarchy;
+export function render(
+  doc: TreeDocument,
+  div: Div,
+  options?: RenderOptions
+): Hierarchy[];
+export function render(
+  tree: Tree | TreeDocument,
+  div: Div,
+  options: RenderOptions = {}
+): Hierarchy | Hierarchy[] {
+  if ('examples' in tree) {
+    return renderExamples(tree, div, options);
+  }
+  const svg = makeSVG(div);
+  navigation.set(svg.node() as SVGSVGElement, {
+    options: options,
+    focus: rootKey(tree),
+  });
+  svg
+    .on('keydown.navigate', () => navigate(svg, event as KeyboardEvent))
+    .on('focusin.navigate', () => {
+      const g = ((event as FocusEvent).target as Element).closest('g.node');
+      if (g) {
+        rove(svg, select<Element, Hierarchy>(g).datum());
+      }
+    });
+  if (makeConfig(options).interaction.collapse) {
+    folding.set(svg.node() as SVGSVGElement, {
+      tree: tree,
+      options: options,
+      folded: {},
+    });
+    svg
+      .on('click.collapse', () => {
+        toggle(svg, (event as MouseEvent).target as Element);
+      })
+      .on('keydown.collapse', () => {
+        const e = event as KeyboardEvent;
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          toggle(svg, e.target as Element);
+        }
+      });
+  }
+  return redraw(svg, tree, options, false);
+}
+
+/**
+ * Renders the trees of a document as numbered examples, in a
+ * `<div class="examples">`. Each is a `<figure class="example">`, with a
+ * `<figcaption>` holding its number, as `(1)`, and any caption, above its SVG.
+ * Examples without a number of their own are numbered by their place in the
+ * document.
+ *
+ * @param {TreeDocument} doc Document to be rendered.
+ * @param {Selection} div `<div>` in which to append the examples.
+ * @param {RenderOptions} options Spacing and style, merged over the defaults.
+ * @return {Hierachy[]} Hierarchy of each example.
+ */
+export function renderExamples(
+  doc: TreeDocument,
+  div: Div,
+  options: RenderOptions = {}
+): Hierarchy[] {
+  const list = div.append('div').attr('class', 'examples');
+  return doc.examples.map((ex, i) => {
+    const figure = list.append('figure').attr('class', 'example');
+    const caption = figure.append('figcaption');
+    caption
+      .append('span')
+      .attr('class', 'example-number')
+      .text(`(${ex.number ?? i + 1})`);
+    if (ex.caption) {
+      caption.append('span').text(' ');
+      const text = caption.append('span').attr('class', 'example-caption');
+      (ex.caption.runs ?? [{ text: ex.caption.data }]).forEach((run) => {
+        const span = text.append(run.script ?? 'span').text(run.text);
+        if (run.italic) {
+          span.style('font-style', 'italic');
+        }
+        if (run.bold) {
+          span.style('font-weight', 'bold');
+        }
+        if (run.smallCaps) {
+          span.style('font-variant', 'small-caps');
+        }
+        if (run.strike) {
+          span.style('text-decoration', 'line-through');
+        }
+      });
+    }
+    return render(ex.tree, figure.append('div'), options);
+  });
+}
+
+/**
+ * Re-renders `tree` in place, into an SVG previously made by `render`, rather
+ * than appending a new one. Nodes keep their elements when they have the same
+ * node type and position among their siblings, and are animated to their new
+ * places as set by `options.transition`. Nodes, links and arrows which no
+ * longer exist fade out and are removed.
+ *
+ * @param {Tree} tree Tree to be rendered into SVG.
+ * @param {SVGSVGElement} svg `<svg>` made by `render`.
+ * @param {RenderOptions} options Spacing and style, merged over the defaults.
+ * @return {Hierachy} Hierarchy of the new tree.
+ */
+export function rerender(
+  tree: Tree,
+  svg: SVGSVGElement,
+  options: RenderOptions = {}
+): Hierarchy {
+  const state = folding.get(svg);
+  if (state) {
+    state.tree = tree;
+    state.options = options;
+  }
+  const nav = navigation.get(svg);
+  if (nav) {
+    nav.options = options;
+  }
+  return redraw(select(svg), tree, options, true);
+}
+
+/**
+ * Draws `tree` into `svg`, with any folded nodes of an interactive SVG folded.
+ * Nodes which may be folded or unfolded are given the `collapsible` class, and
+ * can be focused. Those which are folded are given the `folded` class.
+ */
+function redraw(
+  svg: SVG,
+  tree: Tree,
+  options: RenderOptions,
+  animate: boolean
+) {
+  const state = folding.get(svg.node() as SVGSVGElement);
+  if (!state) {
+    const root = draw(svg, tree, options, animate);
+    rove(svg);
+    return root;
+  }
+
+  const { folded } = state;
+  const root = draw(svg, fold(tree, folded, rootKey(tree)), options, animate);
+  svg
+    .selectAll<SVGGElement, Hierarchy>('g.node:not(.exiting)')
+    .classed('collapsible', (d) => collapsible(d, folded))
+    .classed('folded', (d) => folded[nodeKey(d)] ?? false)
+    .attr('aria-expanded', (d) =>
+      folded[nodeKey(d)] ? 'false' : d.children ? 'true' : null
+    );
+  rove(svg);
+  return root;
+}
+
+/**
+ * Makes a single node of the tree reachable by Tab: `to` if given, or else
+ * the node last focused. If that node is gone, the nearest of its ancestors
+ * still drawn takes its place.
+ */
+function rove(svg: SVG, to?: Hierarchy) {
+  const nav = navigation.get(svg.node() as SVGSVGElement);
+  if (!nav) {
+    return;
+  }
+  const nodes = svg.selectAll<SVGGElement, Hierarchy>('g.node:not(.exiting)');
+  const keys = nodes.data().map(nodeKey);
+  let key = to ? nodeKey(to) : nav.focus;
+  while (keys.indexOf(key) < 0 && key.lastIndexOf('/') >= 0) {
+    key = key.slice(0, key.lastIndexOf('/'));
+  }
+  nav.focus = keys.indexOf(key) >= 0 ? key : keys[0];
+  nodes.attr('tabindex', (d) => (nodeKey(d) === nav.focus ? 0 : -1));
+}
 
-  function renderNodes(svg: SVG, root: Hierarchy) {
+/**
+ * Moves focus between nodes with the arrow keys, following the tree as it is
+ * drawn: towards the root goes to the parent, away from it to the first
+ * child, and across to the previous or next sibling. Home goes to the root.
+ */
+function navigate(svg: SVG, e: KeyboardEvent) {
+  const nav = navigation.get(svg.node() as SVGSVGElement);
+  const g = (e.target as Element).closest('g.node');
+  if (!nav || !g) {
+    return;
+  }
+
+  const n = select<Element, Hierarchy>(g).datum();
+  const siblings = n.parent?.children ?? [n];
+  const i = siblings.indexOf(n);
+  const moves = [
+    n.parent,
+    (n.children ?? [])[0],
+    siblings[i - 1],
+    siblings[i + 1],
+  ];
+  const keys =
+    makeConfig(nav.options).layout.orientation === 'left-right'
+      ? ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown']
+      : ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'];
+  const k = keys.indexOf(e.key);
+  if (k < 0 && e.key !== 'Home') {
+    return;
+  }
+
+  e.preventDefault();
+  const to = k < 0 ? n.ancestors().pop() : moves[k];
+  if (to) {
+    rove(svg, to);
     svg
+      .selectAll<SVGGElement, Hierarchy>('g.node:not(.exiting)')
+      .filter((d) => d === to)
+      .each((_, j, groups) => groups[j].focus());
+  }
+}
+
+/**
+ * Folds or unfolds the node drawn by the element `target` is in. Clicking the
+ * yield of a folded node unfolds it. A `collapse` or `expand` event is
+ * dispatched from `svg`, with the node of the tree given to `render` as its
+ * `detail.node`.
+ */
+function toggle(svg: SVG, target: Element) {
+  const state = folding.get(svg.node() as SVGSVGElement);
+  const g = target.closest('g.node');
+  if (!state || !g) {
+    return;
+  }
+
+  const { folded } = state;
+  let n = select<Element, Hierarchy>(g).datum();
+  if (n.parent && folded[nodeKey(n.parent)]) {
+    n = n.parent;
+  }
+  if (!collapsible(n, folded)) {
+    return;
+  }
+
+  const key = nodeKey(n);
+  if (folded[key]) {
+    delete folded[key];
+  } else {
+    folded[key] = true;
+  }
+  svg.dispatch(folded[key] ? 'collapse' : 'expand', {
+    bubbles: true,
+    cancelable: false,
+    detail: { node: sourceOf(state.tree, n) },
+  });
+  redraw(svg, state.tree, state.options, true);
+}
+
+/**
+ * Marks the nodes of an SVG made by `render` which are among `nodes`, such as
+ * those found by `query`, with the class `className`. Any other nodes have
+ * the class removed, so that calling this again replaces the highlight.
+ *
+ * @param {SVGSVGElement} svg `<svg>` made by `render`.
+ * @param {Tree[]} nodes Nodes of the rendered tree to highlight.
+ * @param {string} className
+ */
+export function highlight(
+  svg: SVGSVGElement,
+  nodes: Tree[],
+  className = 'highlighted'
+): void {
+  const state = folding.get(svg);
+  select(svg)
+    .selectAll<SVGGElement, Hierarchy>('g.node:not(.exiting)')
+    .classed(className, (d) => {
+      if (!state) {
+        return nodes.indexOf(d.data) >= 0;
+      }
+      // The yields of folded nodes are not in the tree as given.
+      const inYield = d.parent && state.folded[nodeKey(d.parent)];
+      return !inYield && nodes.indexOf(sourceOf(state.tree, d)) >= 0;
+    });
+}
+
+/**
+ * Renders how tree `a` differs from tree `b`, as found by `diffTrees`. In
+ * `overlay` mode, `b` is rendered with the nodes deleted from `a` added back
+ * in, and each node marked with the class `diff-inserted`, `diff-deleted`,
+ * `diff-relabeled` or `diff-moved`. In `side-by-side` mode, both trees are
+ * rendered next to each other, in a `<div class="diff">`, with their changes
+ * marked alike. Pointing at or focusing a node of either tree then gives it
+ * and the node it is aligned with the class `diff-linked`.
+ *
+ * @param {Tree} a Tree to compare, such as a student's answer.
+ * @param {Tree} b Tree to compare it against, such as the answer key.
+ * @param {Selection} div `<div>` in which to append the SVGs.
+ * @param {RenderOptions} options Spacing and style, merged over the defaults.
+ * @param mode
+ * @return {TreeDiff} The differences found.
+ */
+export function renderDiff(
+  a: Tree,
+  b: Tree,
+  div: Div,
+  options: RenderOptions = {},
+  mode: 'overlay' | 'side-by-side' = 'overlay'
+): TreeDiff {
+  const diff = diffTrees(a, b);
+  if (mode === 'overlay') {
+    render(overlayDiff(a, b, diff), div, options);
+    return diff;
+  }
+
+  const [markedA, markedB] = markDiff(a, b, diff);
+  const sides = div
+    .append('div')
+    .attr('class', 'diff')
+    .style('display', 'flex')
+    .style('align-items', 'flex-start');
+  render(markedA, sides.append('div').style('flex', '1'), options);
+  render(markedB, sides.append('div').style('flex', '1'), options);
+
+  const link = (target: EventTarget | null) => {
+    const g = target instanceof Element ? target.closest('g.node') : null;
+    const match = g ? g.getAttribute('data-diff-match') : null;
+    sides
+      .selectAll<SVGGElement, Hierarchy>('g.node')
+      .classed('diff-linked', function () {
+        return match !== null && this.getAttribute('data-diff-match') === match;
+      });
+  };
+  sides
+    .on('mouseover.diff focusin.diff', () => link((event as Event).target))
+    .on('mouseleave.diff focusout.diff', () => link(null));
+  return diff;
+}
+
+/**
+ * Initializes an SVG object inside the given div. This SVG will only have a
+ * `<title>` and `<desc>`, a marker definition for arrows, and three child
+ * groups: `<g class="links">`, `<g class="arrows">` and `<g class="nodes">`.
+ * Only the nodes are exposed to assistive technology, as a `tree`.
+ *
+ * @param div parent div element.
+ * @return newly created SVG child of `div`.
+ */
+function makeSVG(div: Div): SVG {
+  const svg = select(
+    div
+      .append('svg')
+      .style('display', 'block')
+      .style('margin', 'auto')
+      .node() as SVGSVGElement
+  );
+  const ids = nextIds();
+  svg
+    .attr('role', 'group')
+    .attr('aria-labelledby', ids.title)
+    .attr('aria-describedby', ids.desc);
+  svg.append('title').attr('id', ids.title);
+  svg.append('desc').attr('id', ids.desc);
+  svg
+    .append('defs')
+    .append('marker')
+    .attr('id', ids.marker)
+    .attr('viewBox', arrowhead.viewBox)
+    .attr('refX', arrowhead.refX)
+    .attr('refY', arrowhead.refY)
+    .attr('markerWidth', arrowhead.markerWidth)
+    .attr('markerHeight', arrowhead.markerHeight)
+    .attr('orient', arrowhead.orient)
+    .append('path')
+    .attr('d', arrowhead.path);
+  svg.append('g').classed('links', true).attr('aria-hidden', 'true');
+  svg.append('g').classed('arrows', true).attr('aria-hidden', 'true');
+  svg
+    .append('g')
+    .classed('nodes', true)
+    .attr('role', 'tree')
+    .attr('aria-labelledby', ids.title);
+
+  return svg;
+}
+
+/**
+ * Renders `tree` into `svg`, over whatever was rendered there before.
+ * Elements are only animated when `animate` is set; otherwise everything is
+ * placed at once.
+ */
+function draw(svg: SVG, tree: Tree, options: RenderOptions, animate: boolean) {
+  const config = makeConfig(options);
+  const { spacing, style } = config;
+
+  const geom = makeGeometry(spacing, config.layout);
+  const markerId = svg.select('marker').attr('id');
+  const measurer = bboxMeasurer(svg);
+
+  /**
+   * `sel` itself, or a transition of it when animating.
+   */
+  function placed<E extends BaseType, D>(
+    sel: Selection<E, D, BaseType, unknown>
+  ): Placeable<D> {
+    return animate ? transitionOf(sel) : sel;
+  }
+
+  function transitionOf<E extends BaseType, D>(
+    sel: Selection<E, D, BaseType, unknown>
+  ) {
+    const { duration, delay, ease } = config.transition;
+    const t = sel.transition().duration(duration).delay(delay);
+    return ease ? t.ease(ease) : t;
+  }
+
+  /**
+   * Fades elements which no longer exist out, before removing them. They are
+   * marked as `exiting`, so that they are left out of any later re-render.
+   */
+  function fadeOut<E extends BaseType, D>(
+    sel: Selection<E, D, BaseType, unknown>
+  ) {
+    sel.classed('exiting', true);
+    if (animate) {
+      transitionOf(sel).style('opacity', 0).remove();
+    } else {
+      sel.remove();
+    }
+  }
+
+  function fadeIn<E extends BaseType, D>(
+    sel: Selection<E, D, BaseType, unknown>
+  ) {
+    if (animate) {
+      transitionOf(sel.style('opacity', 0)).style('opacity', 1);
+    }
+  }
+
+  /**
+   * Joins the nodes of `root` to their `<g>` elements, and writes their
+   * content. Each node's content is measured into `data.size`, ready for
+   * layout.
+   *
+   * @return the entering and updated nodes.
+   */
+  function renderNodes(root: Hierarchy) {
+    const update = svg
       .select('g.nodes')
-      .selectAll('g.node')
-      .data(root.descendants())
-      .join(
-        (enter) => {
-          const node = enter.append('g').classed('node', true);
-
-          node
-            .append('rect')
-            .classed('mBox', true)
-            .attr('x', 0)
-            .attr('y', 0)
-            .attr('width', 0)
-            .attr('height', 0)
-            .style('stroke-width', style.strokeWidth);
-
-          node
-            .append('rect')
-            .classed('pBox', true)
-            .attr('x', 0)
-            .attr('y', 0)
-            .attr('width', 0)
-            .attr('height', 0)
-            .style('stroke-width', style.strokeWidth);
-
-          node
-            .append('rect')
-            .classed('cBox', true)
-            .attr('x', 0)
-            .attr('y', 0)
-            .attr('width', 0)
-            .attr('height', 0)
-            .style('stroke-width', style.strokeWidth);
-
-          const nodeType = node
-            .filter((d) => d.data.nodeType != null)
-            .append('text')
-            .attr('x', 0)
-            .attr('y', 0)
-            .classed('nodeType', true)
-            .text((d) => d.data.nodeType?.name ?? '')
-            .attr('font-size', 1)
-            .attr('dominant-baseline', 'hanging')
-            .attr('text-anchor', 'middle');
+      .style('fill', style.color.text)
+      .style('font-family', () => style.fontFamily)
+      .selectAll<SVGGElement, Hierarchy>('g.node')
+      .data(root.descendants(), nodeKey);
+    fadeOut(update.exit());
+
+    const enter = update.enter().append('g');
+    if (style.boxes) {
+      ['mBox', 'pBox', 'cBox'].forEach((box) => {
+        enter
+          .append('rect')
+          .classed(box, true)
+          .attr('x', 0)
+          .attr('y', 0)
+          .attr('width', 0)
+          .attr('height', 0)
+          .style('stroke-width', style.strokeWidth);
+      });
+    }
+
+    // Source spans let the host map between nodes and their markup.
+    enter
+      .merge(update)
+      .attr('class', (d) => classNames('node', d.data))
+      .attr('data-start', (d) => d.data.span?.start ?? null)
+      .attr('data-end', (d) => d.data.span?.end ?? null)
+      .each((d, i, groups) => {
+        const attrs = dataAttrs(d.data);
+        // Attributes the node no longer has are dropped.
+        Array.prototype.slice.call(groups[i].attributes).forEach((a: Attr) => {
+          const span = a.name === 'data-start' || a.name === 'data-end';
+          if (/^data-/.test(a.name) && !span && !(a.name in attrs)) {
+            groups[i].removeAttribute(a.name);
+          }
+        });
+        Object.keys(attrs).forEach((name) => {
+          groups[i].setAttribute(name, attrs[name]);
+        });
+      })
+      .each((d, i, groups) => {
+        const aria = treeItemAttrs(d);
+        Object.keys(aria).forEach((name) => {
+          const value = aria[name];
+          if (value === null) {
+            groups[i].removeAttribute(name);
+          } else {
+            groups[i].setAttribute(name, value);
+          }
+        });
+      })
+      .each((d, i, groups) => writeNode(groups[i], d))
+      .each((d, i, n) => {
+        d.data.size = nodeSize(n[i], d.data);
+      });
+
+    return { enter: enter, update: update };
+  }
+
+  /**
+   * Writes the node type, leaf data and glosses of `d` into `g`, unless they
+   * are already there. New text is written where the old text was, so that it
+   * may be animated from there.
+   */
+  function writeNode(g: SVGGElement, d: Hierarchy) {
+    const node = select(g);
+    const nt = d.data.nodeType;
+    const leaf = d.data.leaf;
+    const written = signature(d.data);
+    if (content.get(g) !== written) {
+      content.set(g, written);
+      const old = node.select(lines);
+      const x = old.empty() ? 0 : old.attr('x');
+      const y = old.empty() ? 0 : old.attr('y');
+      node.selectAll(lines).remove();
+      node.select('g.avm').remove();
+
+      if (nt?.features) {
+        writeAvm(node.append('g').classed('avm', true), nt.features);
+      } else if (nt) {
+        const nodeType = node
+          .append('text')
+          .attr('x', x)
+          .attr('y', y)
+          .classed('nodeType', true)
+          .text(nt.name)
+          .attr('font-size', style.fontSize.nodeType)
+          .attr('dominant-baseline', 'hanging')
+          .attr('text-anchor', 'middle');
+        if (nt.sub != '') {
           nodeType
-            .filter((d) => d.data.nodeType?.sub != '')
             .append('tspan')
-            .text((d) => d.data.nodeType!.sub)
-            .attr('font-size', 0.9)
+            .text(nt.sub)
+            .attr('font-size', style.fontSize.script)
             .attr('baseline-shift', 'sub');
+        }
+        if (nt.sup != '') {
           nodeType
-            .filter((d) => d.data.nodeType?.sup != '')
             .append('tspan')
-            .text((d) => d.data.nodeType!.sup)
-            .attr('font-size', 0.9)
+            .text(nt.sup)
+            .attr('font-size', style.fontSize.script)
             .attr('baseline-shift', 'super');
-
-          node
-            .filter((d) => d.data.leaf?.data != null)
-            .append('text')
-            .attr('x', 0)
-            .attr('y', 0)
-            .classed('nodeData', true)
-            .text((d) => d.data.leaf!.data)
-            // Implicitly assuming there can be no data without a type...
-            .attr('dx', 0)
-            .attr('dy', (d) => {
-              // TODO: Use the BBox up to this point to determine spacing
-              return (d.data.nodeType != null ? spacing.lineSpacing : 0) + 'em';
-            })
-            .attr('font-size', 0.9)
-            .attr('dominant-baseline', 'hanging')
-            .attr('text-anchor', 'middle');
-
-          node.each((d, i, n) => {
-            const bb = n[i].getBBox();
-            d.data.size = [bb.width, bb.height];
-          });
-
-          return node;
-        },
-        (update) => {
-          update
-            .select('rect.mBox')
-            .attr('x', geom.mBox.x1)
-            .attr('y', geom.mBox.y1)
-            .attr('width', geom.mBox.width)
-            .attr('height', geom.mBox.height);
-
-          update
-            .select('rect.pBox')
-            .attr('x', geom.pBox.x1)
-            .attr('y', geom.pBox.y1)
-            .attr('width', geom.pBox.width)
-            .attr('height', geom.pBox.height);
-
-          update
-            .select('rect.cBox')
-            .attr('x', geom.cBox.x1)
-            .attr('y', geom.cBox.y1)
-            .attr('width', geom.cBox.width)
-            .attr('height', geom.cBox.height);
-
-          update
-            .select('.nodeType')
-            .attr('x', geom.centerX)
-            .attr('y', geom.cBox.y1);
-
-          update
-            .select('.nodeData')
-            .attr('x', geom.centerX)
-            .attr('y', geom.cBox.y1);
-          return update;
         }
-      );
+      }
+
+      const offset = dataOffset(d.data, config, measurer);
+      if (leaf?.data != null) {
+        node
+          .append('text')
+          .attr('x', x)
+          .attr('y', y)
+          .classed('nodeData', true)
+          .each((_, i, texts) => writeLine(texts[i], leaf))
+          // Implicitly assuming there can be no data without a type...
+          .attr('dx', 0)
+          // TODO: Use the BBox up to this point to determine spacing
+          .attr('dy', offset + 'em')
+          .attr('font-size', style.fontSize.nodeData)
+          .attr('dominant-baseline', 'hanging')
+          .attr('text-anchor', 'middle');
+      }
+
+      // Glosses are stacked beneath the data, a line each.
+      (leaf?.glosses ?? []).forEach((gloss, k) => {
+        node
+          .append('text')
+          .attr('x', x)
+          .attr('y', y)
+          .classed('gloss', true)
+          .attr('dy', offset + (k + 1) * spacing.lineSpacing + 'em')
+          .attr('font-size', style.fontSize.nodeData)
+          .attr('dominant-baseline', 'hanging')
+          .attr('text-anchor', 'middle')
+          .each((_, j, texts) => writeLine(texts[j], gloss));
+      });
+    }
+
+    // Text is placed by the node's new layout, and its spans move with any
+    // edit to the markup before the node.
+    const glosses = leaf?.glosses ?? [];
+    node.selectAll(lines).datum(d).attr('aria-hidden', 'true');
+    node
+      .select('g.avm')
+      .datum(d)
+      .attr('aria-hidden', 'true')
+      .attr('data-start', () => nt?.features?.span?.start ?? null)
+      .attr('data-end', () => nt?.features?.span?.end ?? null);
+    node
+      .select('.nodeType')
+      .attr('data-start', () => nt?.span?.start ?? null)
+      .attr('data-end', () => nt?.span?.end ?? null);
+    node
+      .select('.nodeData')
+      .attr('data-start', () => leaf?.span?.start ?? null)
+      .attr('data-end', () => leaf?.span?.end ?? null);
+    node
+      .selectAll('.gloss')
+      .attr('data-start', (_, k) => glosses[k].span?.start ?? null)
+      .attr('data-end', (_, k) => glosses[k].span?.end ?? null);
   }
 
   /**
-   * Initializes an SVG object inside the given div. This SVG will only have two
-   * child nodes: `<g class="links">` and `<g class="nodes">`.
-   *
-   * Because rendering takes place inside a `viewBox`, a reasonable max-width is
-   * provided, based on `config.maxScale`.
-   *
-   * @param div parent div element.
-   * @param root data to be rendered in SVG. Provided to generate `viewBox`.
-   * @return newly created SVG child of `div`.
+   * Places every node's boxes and text, once the layout is calculated.
    */
-  function makeSVG(div: Div) {
-    const svg = div
-      .append('svg')
-      .style('display', 'block')
-      .style('margin', 'auto');
-    svg.append('g').classed('links', true);
-    svg.append('g').classed('nodes', true);
+  function placeNodes(node: Nodes, animated: boolean) {
+    const place = <E extends BaseType>(
+      sel: Selection<E, Hierarchy, BaseType, unknown>
+    ): Placeable<Hierarchy> => (animated ? placed(sel) : sel);
+
+    (['mBox', 'pBox', 'cBox'] as const).forEach((box) => {
+      place(node.select('rect.' + box))
+        .attr('x', geom[box].x1)
+        .attr('y', geom[box].y1)
+        .attr('width', geom[box].width)
+        .attr('height', geom[box].height);
+    });
+
+    place(node.selectAll<SVGTextElement, Hierarchy>(lines))
+      .attr('x', geom.centerX)
+      .attr('y', geom.cBox.y1);
+    place(node.select<SVGGElement>('g.avm')).attr(
+      'transform',
+      (d) => `translate(${geom.centerX(d)} ${geom.cBox.y1(d)})`
+    );
+  }
+
+  /**
+   * Draws a feature structure into `g`, centered on its origin, with its text
+   * measured as it is drawn.
+   */
+  function writeAvm(
+    g: Selection<SVGGElement, unknown, null, undefined>,
+    features: Avm
+  ) {
+    const m = layoutAvm(features, style, measurer);
+    const left = -m.width / 2;
+    m.brackets.forEach((b) => {
+      g.append('path')
+        .classed('avm-bracket', true)
+        .attr('d', bracketPath({ ...b, x: b.x + left }, style));
+    });
+    m.boxes.forEach((b) => {
+      g.append('rect')
+        .classed('avm-box', true)
+        .attr('x', b.x + left)
+        .attr('y', b.y)
+        .attr('width', b.width)
+        .attr('height', b.height);
+    });
+    g.selectAll('path, rect')
+      .style('fill', 'none')
+      .style('stroke', style.color.text)
+      .style('stroke-width', style.strokeWidth);
+    m.texts.forEach((t) => {
+      g.append('text')
+        .classed('avm-' + t.kind, true)
+        .attr('x', t.x + left)
+        .attr('y', t.y)
+        .text(t.text)
+        .attr('font-size', style.fontSize.nodeData)
+        .attr('dominant-baseline', 'hanging')
+        .attr('text-anchor', t.kind === 'tag' ? 'middle' : 'start');
+    });
+  }
 
-    return svg;
+  /**
+   * Size of the content of `g`, the node of `tree`. Feature structures are
+   * sized as they were laid out, and the text beneath them is measured.
+   */
+  function nodeSize(g: SVGGElement, tree: Tree): [number, number] {
+    const [width, height] = measureText(g);
+    const features = tree.nodeType?.features;
+    if (!features) {
+      return [width, height];
+    }
+    const m = layoutAvm(features, style, measurer);
+    if (!tree.leaf) {
+      return [m.width, m.height];
+    }
+    const top = dataOffset(tree, config, measurer) * style.fontSize.nodeData;
+    return [Math.max(m.width, width), top + height];
   }
 
-  function sizeSvg(svg: SVG, root: Hierarchy) {
-    const vb = calcViewBox(root);
-    svg.attr('viewBox', vb.join(' '));
+  /**
+   * Writes a line of text into `text`, with a `<tspan>` for each run if it is
+   * formatted.
+   */
+  function writeLine(text: SVGTextElement, line: TextLine) {
+    if (!line.runs) {
+      select(text).text(line.data);
+      return;
+    }
+    select(text)
+      .text('')
+      .selectAll('tspan')
+      .data(line.runs)
+      .enter()
+      .append('tspan')
+      .text((r) => r.text)
+      .each((r, i, groups) => {
+        const attrs = runAttrs(r, style);
+        Object.keys(attrs).forEach((name) => {
+          if (attrs[name] !== null) {
+            groups[i].setAttribute(name, String(attrs[name]));
+          }
+        });
+      });
+  }
 
-    const parentEm = div.style('font-size').match(/([0-9]*)px/);
-    if (parentEm) {
-      svg.style('max-width', vb[2] * parseInt(parentEm[0]));
+  /**
+   * Draws the tree's translation, if it has one, centered beneath the tree.
+   *
+   * @return where the translation was placed.
+   */
+  function renderTranslation(root: Hierarchy, arrows: ArrowPath[]) {
+    const translation = root.data.translation;
+    let text = svg.select<SVGTextElement>('text.translation');
+    if (!translation) {
+      fadeOut(text);
+      return undefined;
+    }
+
+    const entering = text.empty();
+    if (entering) {
+      text = svg.append('text').classed('translation', true);
     }
+    text
+      .attr('aria-hidden', 'true')
+      .attr('data-start', () => translation.span?.start ?? null)
+      .attr('data-end', () => translation.span?.end ?? null)
+      .attr('font-size', style.fontSize.nodeData)
+      .attr('dominant-baseline', 'hanging')
+      .attr('text-anchor', 'middle')
+      .style('fill', style.color.text)
+      .style('font-family', () => style.fontFamily);
+    text.each((_, i, texts) => writeLine(texts[i], translation));
+
+    const bb = (text.node() as SVGTextElement).getBBox();
+    const box = calcTranslation(root, arrows, geom, spacing, [
+      bb.width,
+      bb.height,
+    ]);
+    const place: Placeable<unknown> = entering ? text : placed(text);
+    place.attr('x', box.x).attr('y', box.y);
+    if (entering) {
+      fadeIn(text);
+    }
+    return box;
   }
 
-  function calcViewBox(root: Hierarchy) {
-    const max = { x: -Infinity, y: -Infinity };
-    const min = { x: Infinity, y: Infinity };
-    root.each((n) => {
-      max.x = Math.max(geom.mBox.x2(n), max.x);
-      max.y = Math.max(geom.mBox.y2(n), max.y);
-      min.x = Math.min(geom.mBox.x1(n), min.x);
-      min.y = Math.min(geom.mBox.y1(n), min.y);
-    });
+  function sizeSvg(
+    root: Hierarchy,
+    arrows: ArrowPath[],
+    translation?: TranslationBox
+  ) {
+    const vb = calcViewBox(root, arrows, geom, spacing, translation);
+    const place: Placeable<unknown> = svg.attr('viewBox') ? placed(svg) : svg;
+    place.attr('viewBox', vb.join(' '));
 
-    return [min.x, min.y, max.x - min.x, max.y - min.y];
+    const div = select((svg.node() as SVGSVGElement).parentNode as HTMLElement);
+    const parentEm = div.style('font-size').match(/([0-9.]+)px/);
+    const scale = style.maxScale ?? (parentEm && parseFloat(parentEm[1]));
+    if (scale) {
+      svg.style('max-width', vb[2] * scale + 'px');
+    }
   }
 
   /**
-   * Attach all edges from `root` to `svg`'s `<g class="links">` child.
+   * Joins all edges from `root` to `svg`'s `<g class="links">` child.
    */
-  function renderLinks(svg: SVG, root: Hierarchy) {
-    const enter = svg
+  function renderLinks(root: Hierarchy) {
+    const update = svg
       .select('g.links')
-      .selectAll('.link')
-      .data(root.links())
-      .enter();
+      .style('stroke-width', style.strokeWidth)
+      .style('stroke', style.color.link)
+      .style('fill-opacity', 0)
+      .selectAll<SVGElement, Link>('.link')
+      .data(
+        (root.links() as Link[]).concat(calcSharedLinks(root, geom)),
+        linkKey
+      );
+    fadeOut(update.exit());
 
-    enter
-      .filter((d) => !(d.target.data.leaf?.isCollapsed ?? false))
-      .append('line')
-      .classed('link', true)
-      // For the link, we ignore the y padding
-      .attr('x1', (d) => geom.centerX(d.source as Hierarchy))
-      .attr('y1', (d) => geom.pBox.y2(d.source as Hierarchy))
-      .attr('x2', (d) => geom.centerX(d.target as Hierarchy))
-      .attr('y2', (d) => geom.pBox.y1(d.target as Hierarchy));
+    // Collapsed children are drawn under a triangle, rather than a line, and
+    // shared children are reached from their other parents by a path.
+    const entered = update
+      .enter()
+      .append(
+        (d) =>
+          document.createElementNS(
+            namespaces.svg,
+            d.d !== undefined
+              ? 'path'
+              : d.target.data.leaf?.isCollapsed
+              ? 'polygon'
+              : 'line'
+          ) as SVGElement
+      );
 
-    enter
-      .filter((d) => d.target.data.leaf?.isCollapsed ?? false)
-      .append('polygon')
-      .classed('link', true)
-      .attr('points', (d) => {
-        const source = {
-          x: geom.centerX(d.source as Hierarchy),
-          y: geom.pBox.y2(d.source as Hierarchy),
-        };
-        const targ = {
-          y: geom.pBox.y1(d.target as Hierarchy),
-          left: geom.pBox.x1(d.target as Hierarchy),
-          right: geom.pBox.x2(d.target as Hierarchy),
-        };
-        return `${source.x},${source.y} ${targ.left},${targ.y} ${targ.right},${targ.y}`;
-      });
+    entered
+      .merge(update)
+      .attr('class', (d) =>
+        classNames(d.d !== undefined ? 'link shared' : 'link', d.target.data)
+      );
+    placeLinks(entered, false);
+    placeLinks(update, true);
+    fadeIn(entered);
+  }
 
-    svg
-      .select('g.links')
+  function placeLinks(link: Links, animated: boolean) {
+    const place = (sel: Links): Placeable<Link> =>
+      animated ? placed(sel) : sel;
+    place(link.filter('line'))
+      .attr('x1', (d) => linkLine(d, geom).x1)
+      .attr('y1', (d) => linkLine(d, geom).y1)
+      .attr('x2', (d) => linkLine(d, geom).x2)
+      .attr('y2', (d) => linkLine(d, geom).y2);
+    place(link.filter('polygon')).attr('points', (d) => linkTriangle(d, geom));
+    place(link.filter('path')).attr('d', (d) => d.d as string);
+  }
+
+  /**
+   * Joins all movement arrows to `svg`'s `<g class="arrows">` child.
+   */
+  function renderArrows(arrows: ArrowPath[]) {
+    const marker = `url(#${markerId})`;
+    svg.select('marker path').style('fill', style.color.arrow);
+    const update: Arrows = svg
+      .select('g.arrows')
       .style('stroke-width', style.strokeWidth)
-      .style('fill-opacity', 0);
+      .style('stroke', style.color.arrow)
+      .style('fill', 'none')
+      .selectAll<SVGPathElement, ArrowPath>('path.arrow')
+      .data(arrows);
+    fadeOut(update.exit());
+
+    const enter = update
+      .enter()
+      .append('path')
+      .attr('d', (a) => a.d);
+    enter
+      .merge(update)
+      .classed('arrow', true)
+      .classed('dashed', (a) => a.arrow.dashed)
+      .style('stroke-dasharray', (a) =>
+        a.arrow.dashed ? `${4 * style.strokeWidth}` : null
+      )
+      .attr('marker-start', (a) => (a.arrow.head !== 'target' ? marker : null))
+      .attr('marker-end', (a) => (a.arrow.head !== 'source' ? marker : null));
+    placed(update).attr('d', (a) => a.d);
+    fadeIn(enter);
   }
 
-  const layout = flextree<TreeWithSize>()
-    .spacing(0)
-    .nodeSize(geom.calcApplySpacing);
-  const root = layout.hierarchy(tree as TreeWithSize) as Hierarchy;
-  const svg = makeSVG(div);
+  // Anything still fading out from an earlier render is dropped at once.
+  svg.selectAll('.exiting').interrupt().remove();
 
-  renderNodes(svg, root); // Pre-renders nodes, to calculate size
+  const layout = makeLayout(geom, config.layout);
+  const root = layout.hierarchy(tree);
+  svg.select('title').text(title(tree));
+  svg.select('desc').text(description(tree));
+
+  const nodes = renderNodes(root); // Renders nodes, to calculate size
   layout(root);
-  sizeSvg(svg, root);
-  renderNodes(svg, root); // Re-renders nodes, once layout is calculated
-  renderLinks(svg, root);
+  const arrows = calcArrows(root, geom, spacing);
+  const translation = renderTranslation(root, arrows);
+  sizeSvg(root, arrows, translation);
+  placeNodes(nodes.enter, false); // Places nodes, once layout is calculated
+  placeNodes(nodes.update, true);
+  fadeIn(nodes.enter);
+  renderLinks(root);
+  renderArrows(arrows);
+  return root;
+}
+
+/**
+ * Text written into a node's `<g>` for its node type, data and glosses.
+ */
+const lines = 'text.nodeType, text.nodeData, text.gloss';
+
+/**
+ * Size of the text in `g`. The boxes are left out, as those of updated nodes
+ * are still sized by the last layout.
+ */
+function measureText(g: SVGGElement): [number, number] {
+  const min = { x: Infinity, y: Infinity };
+  const max = { x: -Infinity, y: -Infinity };
+  select(g)
+    .selectAll<SVGTextElement, unknown>(lines)
+    .each((_, i, texts) => {
+      const bb = texts[i].getBBox();
+      min.x = Math.min(bb.x, min.x);
+      min.y = Math.min(bb.y, min.y);
+      max.x = Math.max(bb.x + bb.width, max.x);
+      max.y = Math.max(bb.y + bb.height, max.y);
+    });
+  return min.x === Infinity ? [0, 0] : [max.x - min.x, max.y - min.y];
+}
+
+/**
+ * Measures text with `getBBox`, as `measureText` does, in a hidden `<text>`
+ * appended to the nodes of `svg` for each measurement. Lines are as high as
+ * the box of `Hg`.
+ */
+function bboxMeasurer(svg: SVG): Measurer {
+  const box = (
+    text: string,
+    fontSize: number,
+    fontFamily: string | null,
+    bold?: boolean
+  ) => {
+    const t = svg
+      .select('g.nodes')
+      .append('text')
+      .attr('visibility', 'hidden')
+      .attr('font-size', fontSize)
+      .attr('font-family', () => fontFamily)
+      .attr('font-weight', () => (bold ? 'bold' : null))
+      .text(text);
+    const bb = (t.node() as SVGTextElement).getBBox();
+    t.remove();
+    return bb;
+  };
+  return {
+    width: (text, fontSize, fontFamily, bold) =>
+      box(text, fontSize, fontFamily, bold).width,
+    height: (fontSize, fontFamily) => box('Hg', fontSize, fontFamily).height,
+  };
+}
+
+/**
+ * Key matching a node to its element across renders: the node types of its
+ * ancestors and itself, each with a count of the earlier siblings of the same
+ * type. Typing inside one node, or adding a sibling of another type, leaves
+ * the keys of other nodes unchanged.
+ */
+function nodeKey(n: Hierarchy): string {
+  if (!n.parent) {
+    return rootKey(n.data);
+  }
+  const siblings = (n.parent.children ?? []).map((s) => s.data);
+  return childKey(nodeKey(n.parent), siblings, siblings.indexOf(n.data));
+}
+
+function rootKey(tree: Tree) {
+  return tree.nodeType?.name ?? '';
+}
+
+/**
+ * Key of the `i`th of `siblings`, whose parent has the key `parent`.
+ */
+function childKey(parent: string, siblings: Tree[], i: number) {
+  const name = siblings[i].nodeType?.name ?? '';
+  const same = siblings
+    .slice(0, i)
+    .filter((s) => (s.nodeType?.name ?? '') === name).length;
+  return `${parent}/${name}@${same}`;
+}
+
+/**
+ * Copy of `tree`, whose key is `key`, with the children of each folded node
+ * replaced by a collapsed leaf of their yield. Nodes with more than one parent
+ * are keyed where they are laid out, and copied once.
+ */
+function fold(tree: Tree, folded: Folding['folded'], key: string): Tree {
+  const children = layoutChildren(tree);
+  const originals: Tree[] = [];
+  const copies: Tree[] = [];
+  const root = copy(tree, key);
+  // Other parents share the copy, or the node itself if that was folded away.
+  copies.forEach((c) => {
+    c.children = c.children.map((k) => copies[originals.indexOf(k)] ?? k);
+  });
   return root;
+
+  function copy(n: Tree, at: string): Tree {
+    if (folded[at] && n.children.length > 0) {
+      const leaf = { data: yieldOf(n).join(' '), isCollapsed: true };
+      return { ...n, children: [{ ...Tree(), leaf: leaf }] };
+    }
+    const laidOut = children(n);
+    const c = {
+      ...n,
+      children: n.children.map((k) => {
+        const i = laidOut.indexOf(k);
+        return i >= 0 ? copy(k, childKey(at, laidOut, i)) : k;
+      }),
+    };
+    originals.push(n);
+    copies.push(c);
+    return c;
+  }
+}
+
+/**
+ * Whether `n` may be folded or unfolded. Nodes without children, or already
+ * collapsed in the markup, can not be.
+ */
+function collapsible(n: Hierarchy, folded: Folding['folded']) {
+  const children = n.children ?? [];
+  return (
+    folded[nodeKey(n)] === true ||
+    (children.length > 0 &&
+      !(children.length === 1 && children[0].data.leaf?.isCollapsed))
+  );
+}
+
+/**
+ * Node of `tree` drawn as `n`, found by its position.
+ */
+function sourceOf(tree: Tree, n: Hierarchy): Tree {
+  const children = layoutChildren(tree);
+  return n
+    .ancestors()
+    .reverse()
+    .slice(1)
+    .reduce((t, a) => children(t)[(a.parent?.children ?? []).indexOf(a)], tree);
+}
+
+/**
+ * Key of a link, by its child. Links to collapsed children are drawn as
+ * different elements, so are keyed apart, and links to shared nodes from
+ * their other parents are keyed by both ends.
+ */
+function linkKey(l: Link) {
+  if (l.d !== undefined) {
+    return nodeKey(l.target) + '<' + nodeKey(l.source);
+  }
+  return nodeKey(l.target) + (l.target.data.leaf?.isCollapsed ? '^' : '');
+}
+
+/**
+ * Everything written into a node's `<g>`, other than source spans.
+ */
+function signature(tree: Tree) {
+  const nt = tree.nodeType;
+  const leaf = tree.leaf;
+  return JSON.stringify([
+    nt ? [nt.name, nt.sub, nt.sup, nt.features && typeName(tree)] : null,
+    leaf
+      ? [
+          leaf.data,
+          leaf.runs,
+          (leaf.glosses ?? []).map((g) => [g.data, g.runs]),
+        ]
+      : null,
+  ]);
 }
@@ -0,0 +1,338 @@
+import { Tree, TextLine, Avm } from './tree';
+import { parse, textStyles } from './parser';
+
+type Leaf = NonNullable<Tree['leaf']>;
+type TextStyle = 'italic' | 'bold' | 'strike' | 'smallCaps';
+
+type StringifyOptions = {
+  /**
+   * Indentation used for multi-line layout, either a number of spaces or the
+   * string itself. When not given, the whole tree is written on one line.
+   */
+  indent?: number | string;
+  /**
+   * In multi-line layout, subtrees which fit within this many columns are
+   * kept on a single line.
+   */
+  width?: number;
+  /**
+   * Whether chains of non-branching nodes are written with `.` shorthand.
+   */
+  shorthand?: boolean;
+};
+
+const defaultOptions = {
+  width: 80,
+  shorthand: true,
+};
+
+/**
+ * Writes `tree` as markup, such that `parse(stringify(tree))` reproduces it.
+ * A node with more than one parent is written where it is first reached, and
+ * referred to by name, `[#name]`, under its other parents.
+ *
+ * @param tree Tree to be written.
+ * @param options
+ * @returns Markup for `tree`.
+ * @throws {Error} If `tree` has a shape the grammar can not express.
+ */
+function stringify(root: Tree, options: StringifyOptions = {}): string {
+  const refs: Tree[] = [];
+  const tree = unshare(root, [], refs);
+  const width = options.width ?? defaultOptions.width;
+  const shorthand = options.shorthand ?? defaultOptions.shorthand;
+  const indent =
+    typeof options.indent === 'number'
+      ? new Array(options.indent + 1).join(' ')
+      : options.indent;
+
+  const multiline = indent !== undefined && indent !== '';
+  const markup = multiline ? block(tree, '', indent as string) : inline(tree);
+  if (!tree.translation) {
+    return markup;
+  }
+  return markup + (multiline ? '\n' : ' ') + '| ' + text(tree.translation);
+
+  function inline(n: Tree): string {
+    const [head, children] = open(n);
+    return [head, ...children.map(inline)].join(' ') + ']';
+  }
+
+  function block(n: Tree, prefix: string, indent: string): string {
+    const line = inline(n);
+    const [head, children] = open(n);
+    if (prefix.length + line.length <= width || children.length === 0) {
+      return line;
+    }
+
+    const inner = prefix + indent;
+    const lines = children.map((c) => inner + block(c, inner, indent));
+    return head + '\n' + lines.join('\n') + ']';
+  }
+
+  /**
+   * Writes the opening of a node, up to its children: the bracket, the node
+   * type chain and any leaf data. The children still to be written are
+   * returned alongside.
+   */
+  function open(n: Tree): [string, Tree[]] {
+    if (refs.indexOf(n) >= 0) {
+      return ['[#' + word(n.id as string), []];
+    }
+    if (!n.nodeType) {
+      if (n.translation && n !== tree) {
+        throw new Error('Only the root node may have a translation');
+      }
+      if (n.id !== undefined || n.arrows || n.classes || n.attrs) {
+        throw new Error(
+          'Only nodes with a node type may be named, linked or classed'
+        );
+      }
+      if (n.leaf || n.children.length > 0) {
+        throw new Error('Only nodes with a node type may have content');
+      }
+      return ['[', []];
+    }
+
+    let head = n;
+    let markup = '[' + label(head);
+    while (
+      shorthand &&
+      !head.leaf &&
+      head.children.length === 1 &&
+      head.children[0].nodeType
+    ) {
+      head = head.children[0];
+      markup += '.' + label(head);
+    }
+
+    if (head.leaf) {
+      if (head.children.length > 0) {
+        throw new Error('Nodes may not have both data and children');
+      }
+      if (head.leaf.isCollapsed) {
+        throw new Error('Collapsed data must belong to an untyped child');
+      }
+      return [markup + ' ' + leaf(head.leaf), []];
+    }
+
+    const only = head.children.length === 1 ? head.children[0] : null;
+    if (only && !only.nodeType && only.leaf?.isCollapsed) {
+      if (only.children.length > 0) {
+        throw new Error('Nodes may not have both data and children');
+      }
+      return [markup + '* ' + leaf(only.leaf, true), []];
+    }
+
+    return [markup, head.children];
+  }
+
+  function label(n: Tree) {
+    if (n.translation && n !== tree) {
+      throw new Error('Only the root node may have a translation');
+    }
+    let markup = nodeType(n);
+    if (n.id !== undefined) {
+      markup += '#' + word(n.id);
+    }
+    const attrs = n.attrs ?? {};
+    const items = (n.classes ?? [])
+      .map(word)
+      .concat(Object.keys(attrs).map((k) => word(k) + '=' + word(attrs[k])));
+    if (items.length > 0) {
+      markup += '{' + items.join(' ') + '}';
+    }
+    (n.arrows ?? []).forEach((a) => {
+      markup += a.dashed ? '~' : '';
+      markup += { source: '<', target: '>', both: '<>' }[a.head];
+      markup += word(a.target);
+    });
+    return markup;
+  }
+
+  function nodeType(n: Tree) {
+    const nt = n.nodeType as NonNullable<Tree['nodeType']>;
+    if (nt.features) {
+      // A single feature before child nodes needs a `,` to parse as one.
+      const one = nt.features.features.length === 1 && n.children.length > 0;
+      return one ? avm(nt.features).replace(/\]$/, ',]') : avm(nt.features);
+    }
+    let markup = word(nt.name);
+    if (nt.sub !== '') {
+      markup += '_' + word(nt.sub);
+    }
+    if (nt.sup !== '') {
+      markup += '^' + word(nt.sup);
+    }
+    return markup;
+  }
+
+  function avm(m: Avm): string {
+    const features = m.features.map((f) => {
+      const value =
+        typeof f.value === 'object'
+          ? avm(f.value)
+          : f.value?.split(' ').map(word).join(' ');
+      const tag = f.tag !== undefined ? '#' + word(f.tag) : undefined;
+      return [word(f.name), tag, value]
+        .filter((p) => p !== undefined)
+        .join(' ');
+    });
+    return '[' + features.join(', ') + ']';
+  }
+
+  /**
+   * Writes leaf data, followed by any glosses.
+   */
+  function leaf(l: Leaf, collapsed = false) {
+    const glosses = l.glosses ?? [];
+    const data =
+      l.data === '∅' && !l.runs && !collapsed
+        ? '/'
+        : text(l, glosses.length > 0, true);
+    return [data]
+      .concat(glosses.map((g, i) => text(g, i < glosses.length - 1)))
+      .join(' | ');
+  }
+
+  /**
+   * Writes a line of text along with its formatting. If `more` lines follow,
+   * trailing whitespace must be escaped. A script can not begin leaf `data`,
+   * as it would be read as one of the node type, and text can not directly
+   * follow a script unless it begins with whitespace or a symbol, as it would
+   * be read as part of the script.
+   *
+   * @throws {Error} If the text can not be expressed in markup.
+   */
+  function text(line: TextLine, more = false, data = false) {
+    const runs = line.runs ?? [{ text: line.data }];
+    let markup = '';
+    let open: TextStyle[] = [];
+    // End of the last script written, while nothing has been written after.
+    let script = -1;
+    const fail = () => {
+      throw new Error(`Data '${line.data}' can not be expressed in markup`);
+    };
+
+    runs.forEach((r) => {
+      const styles = styleOrder.filter((s) => r[s]);
+      // Formatting shared with the previous run is left open.
+      let keep = 0;
+      while (keep < open.length && styles.indexOf(open[keep]) >= 0) {
+        keep++;
+      }
+      markup += close(open.length - keep);
+      open = open.slice(0, keep);
+      styles
+        .filter((s) => open.indexOf(s) < 0)
+        .forEach((s) => {
+          markup += '{' + tags[s] + ' ';
+          open.push(s);
+        });
+
+      if (r.script) {
+        if (data && markup === '') {
+          fail();
+        }
+        markup += (r.script === 'sub' ? '_' : '^') + word(r.text);
+        script = markup.length;
+      } else {
+        const escaped = escapeText(r.text, markup === '');
+        // Whitespace and symbols end the script's word; anything else joins it.
+        if (
+          script === markup.length &&
+          /^[^\s.*/_^[\]#~<>{}=|@,]/.test(escaped)
+        ) {
+          fail();
+        }
+        markup += escaped;
+      }
+    });
+    markup += close(open.length);
+    if (markup === '') {
+      markup = '""';
+    }
+    if (more) {
+      // Whitespace is only escaped once, after an even number of `\`.
+      markup = markup.replace(/(^|[^\\])((?:\\\\)*)(\s)$/, '$1$2\\$3');
+    }
+    return markup;
+  }
+}
+
+/**
+ * Copy of the nodes of `n`, in which each node reached more than once is
+ * replaced, after the first time, by a reference to it. References are empty
+ * nodes with only the name of the node, and are added to `refs`.
+ *
+ * @throws {Error} If a node with more than one parent is not named.
+ */
+function unshare(n: Tree, seen: Tree[], refs: Tree[]): Tree {
+  seen.push(n);
+  const children = n.children.map((c) => {
+    if (seen.indexOf(c) < 0) {
+      return unshare(c, seen, refs);
+    }
+    if (c.id === undefined) {
+      throw new Error('Nodes with more than one parent must be named');
+    }
+    const ref = { ...Tree(), id: c.id };
+    refs.push(ref);
+    return ref;
+  });
+  return { ...n, children: children };
+}
+
+/**
+ * Reformats markup into its canonical form. Comments are dropped, and macros
+ * are written out in full where they were used.
+ *
+ * @param input Markup to be formatted.
+ * @param options
+ * @returns Formatted markup.
+ * @throws {ParseError} If `input` is not valid markup.
+ */
+function format(input: string, options: StringifyOptions = {}): string {
+  return stringify(parse(input), options);
+}
+
+const styleOrder: TextStyle[] = ['italic', 'bold', 'strike', 'smallCaps'];
+
+/**
+ * Tag written to open each text style, e.g. `i` for `{i ...}`.
+ */
+const tags: { [style: string]: string } = {};
+Object.keys(textStyles).forEach((tag) => {
+  tags[textStyles[tag]] = tag;
+});
+
+function close(count: number) {
+  let braces = '';
+  for (let i = 0; i < count; i++) {
+    braces += '}';
+  }
+  return braces;
+}
+
+/**
+ * Writes `s` so that it is read back as a single word, quoting it if it
+ * contains whitespace, and otherwise escaping any symbols.
+ */
+function word(s: string) {
+  if (s === '' || /\s/.test(s)) {
+    return '"' + s.replace(/["\\]/g, '\\$&') + '"';
+  }
+  return s.replace(/[.*/_^[\]#~<>{}=|@%,"\\]/g, '\\$&');
+}
+
+/**
+ * Escapes leaf text. Only what would otherwise be read as markup is escaped,
+ * keeping data readable. At the `start` of the data, that includes anything
+ * which could begin a node type annotation, or whitespace.
+ */
+function escapeText(text: string, start: boolean) {
+  const markup = text.replace(/[[\]{}|%"\\]|[_^](?!\s|$)/g, '\\$&');
+  return start ? markup.replace(/^[.*/_^#~<>=@\s]/, '\\$&') : markup;
+}
+
+export { StringifyOptions, stringify, format };
@@ -0,0 +1,383 @@
+import { Tree, TextLine, Avm } from './tree';
+import { RenderOptions, makeConfig } from './config';
+import {
+  Link,
+  arrowhead,
+  nextIds,
+  classNames,
+  dataAttrs,
+  runAttrs,
+  makeGeometry,
+  makeLayout,
+  linkLine,
+  linkTriangle,
+  calcSharedLinks,
+  calcArrows,
+  calcTranslation,
+  calcViewBox,
+} from './layout';
+import {
+  Measurer,
+  fontMetrics,
+  measureNode,
+  measureLine,
+  dataOffset,
+} from './measure';
+import { layoutAvm, bracketPath } from './avm';
+import { title, description, treeItemAttrs } from './describe';
+
+type Attrs = { [name: string]: string | number | null | undefined };
+
+/**
+ * Pixels per unit used for the `width` and `height` of the SVG, when
+ * `style.maxScale` is not given.
+ */
+const defaultScale = 16;
+
+/**
+ * Renders `tree` as a standalone SVG document, without needing a DOM. The
+ * output has the same structure and layout as that of `render`, but text is
+ * sized with `measurer` rather than by the browser.
+ *
+ * @param tree Tree to be rendered.
+ * @param options Spacing and style, merged over the defaults.
+ * @param measurer Text measurement backend.
+ * @returns SVG markup.
+ */
+function renderToString(
+  tree: Tree,
+  options: RenderOptions = {},
+  measurer: Measurer = fontMetrics
+): string {
+  const config = makeConfig(options);
+  const { spacing, style } = config;
+  const geom = makeGeometry(spacing, config.layout);
+  const layout = makeLayout(geom, config.layout);
+
+  const root = layout.hierarchy(tree);
+  root.each((n) => {
+    n.data.size = measureNode(n.data, config, measurer);
+  });
+  layout(root);
+
+  const arrows = calcArrows(root, geom, spacing);
+  const translation = tree.translation
+    ? calcTranslation(root, arrows, geom, spacing, [
+        measureLine(tree.translation, config, measurer),
+        measurer.height(style.fontSize.nodeData, style.fontFamily),
+      ])
+    : undefined;
+  const vb = calcViewBox(root, arrows, geom, spacing, translation);
+  const scale = style.maxScale ?? defaultScale;
+  const ids = nextIds();
+  const marker = `url(#${ids.marker})`;
+
+  const links = (root.links() as Link[]).map((l) => {
+    const cls = classNames('link', l.target.data);
+    return l.target.data.leaf?.isCollapsed
+      ? el('polygon', { class: cls, points: linkTriangle(l, geom) })
+      : el('line', { class: cls, ...linkLine(l, geom) });
+  });
+  calcSharedLinks(root, geom).forEach((l) => {
+    links.push(
+      el('path', { class: classNames('link shared', l.target.data), d: l.d })
+    );
+  });
+
+  const paths = arrows.map((a) =>
+    el('path', {
+      class: a.arrow.dashed ? 'arrow dashed' : 'arrow',
+      d: a.d,
+      style: a.arrow.dashed
+        ? `stroke-dasharray: ${4 * style.strokeWidth}`
+        : null,
+      'marker-start': a.arrow.head !== 'target' ? marker : null,
+      'marker-end': a.arrow.head !== 'source' ? marker : null,
+    })
+  );
+
+  const nodes = root.descendants().map((n) => {
+    const content = [];
+
+    if (style.boxes) {
+      (['mBox', 'pBox', 'cBox'] as const).forEach((box) => {
+        content.push(
+          el('rect', {
+            class: box,
+            x: geom[box].x1(n),
+            y: geom[box].y1(n),
+            width: geom[box].width(n),
+            height: geom[box].height(n),
+            style: `stroke-width: ${style.strokeWidth}`,
+          })
+        );
+      });
+    }
+
+    const nt = n.data.nodeType;
+    if (nt?.features) {
+      content.push(avm(nt.features, geom.centerX(n), geom.cBox.y1(n)));
+    } else if (nt) {
+      const scripts = [];
+      if (nt.sub !== '') {
+        scripts.push(script(nt.sub, 'sub'));
+      }
+      if (nt.sup !== '') {
+        scripts.push(script(nt.sup, 'super'));
+      }
+      content.push(
+        el(
+          'text',
+          {
+            x: geom.centerX(n),
+            y: geom.cBox.y1(n),
+            class: 'nodeType',
+            'data-start': nt.span?.start,
+            'data-end': nt.span?.end,
+            'font-size': style.fontSize.nodeType,
+            'dominant-baseline': 'hanging',
+            'text-anchor': 'middle',
+            'aria-hidden': 'true',
+          },
+          [escape(nt.name), ...scripts]
+        )
+      );
+    }
+
+    const leaf = n.data.leaf;
+    if (leaf) {
+      const offset = dataOffset(n.data, config, measurer);
+      content.push(
+        el(
+          'text',
+          {
+            x: geom.centerX(n),
+            y: geom.cBox.y1(n),
+            class: 'nodeData',
+            'data-start': leaf.span?.start,
+            'data-end': leaf.span?.end,
+            dx: 0,
+            dy: offset + 'em',
+            'font-size': style.fontSize.nodeData,
+            'dominant-baseline': 'hanging',
+            'text-anchor': 'middle',
+            'aria-hidden': 'true',
+          },
+          line(leaf)
+        )
+      );
+
+      // Glosses are stacked beneath the data, a line each.
+      (leaf.glosses ?? []).forEach((gloss, k) => {
+        content.push(
+          el(
+            'text',
+            {
+              x: geom.centerX(n),
+              y: geom.cBox.y1(n),
+              class: 'gloss',
+              'data-start': gloss.span?.start,
+              'data-end': gloss.span?.end,
+              dy: offset + (k + 1) * spacing.lineSpacing + 'em',
+              'font-size': style.fontSize.nodeData,
+              'dominant-baseline': 'hanging',
+              'text-anchor': 'middle',
+              'aria-hidden': 'true',
+            },
+            line(gloss)
+          )
+        );
+      });
+    }
+
+    return el(
+      'g',
+      {
+        class: classNames('node', n.data),
+        'data-start': n.data.span?.start,
+        'data-end': n.data.span?.end,
+        ...dataAttrs(n.data),
+        ...treeItemAttrs(n),
+      },
+      content
+    );
+  });
+
+  return el(
+    'svg',
+    {
+      xmlns: 'http://www.w3.org/2000/svg',
+      viewBox: vb.join(' '),
+      width: vb[2] * scale,
+      height: vb[3] * scale,
+      role: 'group',
+      'aria-labelledby': ids.title,
+      'aria-describedby': ids.desc,
+    },
+    [
+      el('title', { id: ids.title }, [escape(title(tree))]),
+      el('desc', { id: ids.desc }, [escape(description(tree))]),
+      el('defs', {}, [
+        el(
+          'marker',
+          {
+            id: ids.marker,
+            viewBox: arrowhead.viewBox,
+            refX: arrowhead.refX,
+            refY: arrowhead.refY,
+            markerWidth: arrowhead.markerWidth,
+            markerHeight: arrowhead.markerHeight,
+            orient: arrowhead.orient,
+          },
+          [
+            el('path', {
+              d: arrowhead.path,
+              style: `fill: ${style.color.arrow}`,
+            }),
+          ]
+        ),
+      ]),
+      el(
+        'g',
+        {
+          class: 'links',
+          'aria-hidden': 'true',
+          style:
+            `stroke-width: ${style.strokeWidth}; ` +
+            `stroke: ${style.color.link}; fill-opacity: 0`,
+        },
+        links
+      ),
+      el(
+        'g',
+        {
+          class: 'arrows',
+          'aria-hidden': 'true',
+          style:
+            `stroke-width: ${style.strokeWidth}; ` +
+            `stroke: ${style.color.arrow}; fill: none`,
+        },
+        paths
+      ),
+      el(
+        'g',
+        {
+          class: 'nodes',
+          role: 'tree',
+          'aria-labelledby': ids.title,
+          style:
+            `fill: ${style.color.text}` +
+            (style.fontFamily ? `; font-family: ${style.fontFamily}` : ''),
+        },
+        nodes
+      ),
+      translation && tree.translation
+        ? el(
+            'text',
+            {
+              x: translation.x,
+              y: translation.y,
+              class: 'translation',
+              'aria-hidden': 'true',
+              'data-start': tree.translation.span?.start,
+              'data-end': tree.translation.span?.end,
+              style:
+                `fill: ${style.color.text}` +
+                (style.fontFamily ? `; font-family: ${style.fontFamily}` : ''),
+              'font-size': style.fontSize.nodeData,
+              'dominant-baseline': 'hanging',
+              'text-anchor': 'middle',
+            },
+            line(tree.translation)
+          )
+        : '',
+    ]
+  );
+
+  /**
+   * Content of a line of text, with a `<tspan>` for each run if it is
+   * formatted.
+   */
+  function line(text: TextLine) {
+    return text.runs
+      ? text.runs.map((r) => el('tspan', runAttrs(r, style), [escape(r.text)]))
+      : [escape(text.data)];
+  }
+
+  /**
+   * Draws a feature structure centered on `x`, hanging from `y`.
+   */
+  function avm(features: Avm, x: number, y: number) {
+    const m = layoutAvm(features, style, measurer);
+    const stroke = `fill: none; stroke: ${style.color.text}; stroke-width: ${style.strokeWidth}`;
+    return el(
+      'g',
+      {
+        class: 'avm',
+        'data-start': features.span?.start,
+        'data-end': features.span?.end,
+        transform: `translate(${x - m.width / 2} ${y})`,
+        'aria-hidden': 'true',
+      },
+      [
+        ...m.brackets.map((b) =>
+          el('path', {
+            class: 'avm-bracket',
+            d: bracketPath(b, style),
+            style: stroke,
+          })
+        ),
+        ...m.boxes.map((b) =>
+          el('rect', { class: 'avm-box', ...b, style: stroke })
+        ),
+        ...m.texts.map((t) =>
+          el(
+            'text',
+            {
+              x: t.x,
+              y: t.y,
+              class: 'avm-' + t.kind,
+              'font-size': style.fontSize.nodeData,
+              'dominant-baseline': 'hanging',
+              'text-anchor': t.kind === 'tag' ? 'middle' : 'start',
+            },
+            [escape(t.text)]
+          )
+        ),
+      ]
+    );
+  }
+
+  function script(text: string, shift: string) {
+    return el(
+      'tspan',
+      { 'font-size': style.fontSize.script, 'baseline-shift': shift },
+      [escape(text)]
+    );
+  }
+}
+
+/**
+ * Writes an element. Attributes which are `null` or `undefined` are left out,
+ * and `children` must already be escaped.
+ */
+function el(name: string, attrs: Attrs, children: string[] = []): string {
+  const attributes = Object.keys(attrs)
+    .filter((key) => attrs[key] !== null && attrs[key] !== undefined)
+    .map((key) => ` ${key}="${escape(String(attrs[key]))}"`)
+    .join('');
+
+  return children.length > 0
+    ? `<${name}${attributes}>${children.join('')}</${name}>`
+    : `<${name}${attributes}/>`;
+}
+
+function escape(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export { renderToString };
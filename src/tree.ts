@@ -1,3 +1,5 @@
+import { Span } from './error';
+
 /**
  * AST representation of a tree after parsing, including all data and metadata
  * nodes will need for rendering.
@@ -6,29 +8,226 @@ type Tree = {
   /**
    * Node types are triples, including the base name, as well as possible
    * subscripts and superscripts. A node with no `nodeType` is an empty
-   * node (not to be confused with a ∅-node).
+   * node (not to be confused with a ∅-node). Nodes may instead be labelled
+   * with a feature structure, in which case the name and scripts are empty.
    */
-  nodeType?: { name: string; sub: string; sup: string };
+  nodeType?: {
+    name: string;
+    sub: string;
+    sup: string;
+    features?: Avm;
+    span?: Span;
+  };
   /**
-   * The name `children` has special meaning for `d3.hierarchy`.
+   * The name `children` has special meaning for `d3.hierarchy`. A node may be
+   * the child of more than one parent (multidominance), in which case the
+   * same object is in the children of each, and the tree is a rooted DAG.
    */
   children: Tree[];
   /**
    * Leaf nodes contain data strings. Additionally, they may mark if they were
-   * collapsed, denoting a "hidden subtree".
+   * collapsed, denoting a "hidden subtree". Formatted data is also given as
+   * `runs`, in which case `data` is its plain text. Any `glosses` are further
+   * tiers of text, drawn beneath the data.
    */
-  leaf?: { data: string; isCollapsed: boolean };
+  leaf?: {
+    data: string;
+    isCollapsed: boolean;
+    runs?: TextRun[];
+    glosses?: TextLine[];
+    span?: Span;
+  };
   /**
    * Optionally, nodes may have classes associated with them, allowing for
    * custom user CSS.
    */
   classes?: string[];
+  /**
+   * Optionally, nodes may have simple key/value attributes, which are rendered
+   * as `data-` attributes.
+   */
+  attrs?: { [key: string]: string };
+  /**
+   * Name by which other nodes may refer to this one, e.g. as the target of a
+   * movement arrow.
+   */
+  id?: string;
+  /**
+   * Movement arrows drawn from this node to other, named, nodes.
+   */
+  arrows?: Arrow[];
+  /**
+   * Free translation of the whole tree, drawn beneath it. Only the root node
+   * has a translation.
+   */
+  translation?: TextLine;
+  /**
+   * Range of markup this node was parsed from. Spans are only present on
+   * trees produced by `parse`, and are also given for `nodeType` and `leaf`.
+   */
+  span?: Span;
+};
+
+/**
+ * An arrow between two nodes, typically marking movement. The arrow starts at
+ * the node which holds it, and ends at the node named by `target`.
+ */
+type Arrow = {
+  target: string;
+  /**
+   * Which ends of the arrow have an arrowhead.
+   */
+  head: 'source' | 'target' | 'both';
+  dashed: boolean;
+  span?: Span;
+};
+
+/**
+ * A stretch of leaf text which is formatted alike.
+ */
+type TextRun = {
+  text: string;
+  italic?: boolean;
+  bold?: boolean;
+  strike?: boolean;
+  smallCaps?: boolean;
+  script?: 'sub' | 'sup';
+};
+
+/**
+ * An attribute-value matrix, or feature structure, drawn in square brackets
+ * with a row for each feature.
+ */
+type Avm = { features: Feature[]; span?: Span };
+
+/**
+ * A feature of an attribute-value matrix. Its value is atomic text or a
+ * nested matrix, and may be given a structure-sharing `tag`, drawn as a boxed
+ * number. A feature with a tag need not repeat the value shared.
+ */
+type Feature = {
+  name: string;
+  tag?: string;
+  value?: string | Avm;
+};
+
+/**
+ * A line of text, such as a gloss. As with leaf data, formatted text is also
+ * given as `runs`.
+ */
+type TextLine = { data: string; runs?: TextRun[]; span?: Span };
+
+/**
+ * A tree of a document, as an example. Examples without a `number` are
+ * numbered by their place in the document when rendered.
+ */
+type Example = {
+  tree: Tree;
+  number?: string;
+  caption?: TextLine;
+  span?: Span;
 };
 
+/**
+ * Every tree of a document, as parsed by `parseDocument`.
+ */
+type TreeDocument = { examples: Example[] };
+
 function Tree(): Tree {
   return { children: [] };
 }
 
+/**
+ * Returns a copy of `tree` with all source spans removed. Useful for comparing
+ * trees by structure alone. Nodes with more than one parent are copied once,
+ * and stay shared.
+ *
+ * @param tree
+ * @returns Copy of `tree` without spans.
+ */
+function stripSpans(tree: Tree): Tree {
+  const nodes: Tree[] = [];
+  const copies: Tree[] = [];
+  return strip(tree);
+
+  function strip(n: Tree) {
+    const i = nodes.indexOf(n);
+    if (i >= 0) {
+      return copies[i];
+    }
+    const copy = stripNode(n);
+    nodes.push(n);
+    copies.push(copy);
+    copy.children = n.children.map(strip);
+    return copy;
+  }
+}
+
+function stripNode(tree: Tree): Tree {
+  const copy: Tree = { ...tree, children: [] };
+  delete copy.span;
+  if (tree.nodeType) {
+    copy.nodeType = { ...tree.nodeType };
+    delete copy.nodeType.span;
+    if (tree.nodeType.features) {
+      copy.nodeType.features = stripAvm(tree.nodeType.features);
+    }
+  }
+  if (tree.leaf) {
+    copy.leaf = { ...tree.leaf };
+    delete copy.leaf.span;
+    if (tree.leaf.glosses) {
+      copy.leaf.glosses = tree.leaf.glosses.map(stripLine);
+    }
+  }
+  if (tree.translation) {
+    copy.translation = stripLine(tree.translation);
+  }
+  if (tree.arrows) {
+    copy.arrows = tree.arrows.map((a) => {
+      const arrow = { ...a };
+      delete arrow.span;
+      return arrow;
+    });
+  }
+  return copy;
+}
+
+function stripAvm(avm: Avm): Avm {
+  return {
+    features: avm.features.map((f) =>
+      typeof f.value === 'object' ? { ...f, value: stripAvm(f.value) } : f
+    ),
+  };
+}
+
+function stripLine(line: TextLine) {
+  const copy = { ...line };
+  delete copy.span;
+  return copy;
+}
+
+/**
+ * Finds the deepest node whose source span contains `offset`. This maps a
+ * cursor position in the markup to the node it is editing.
+ *
+ * @param tree Tree produced by `parse`.
+ * @param offset Character offset into the markup.
+ * @returns The innermost node at `offset`, if any.
+ */
+function nodeAt(tree: Tree, offset: number): Tree | undefined {
+  if (!tree.span || offset < tree.span.start || offset >= tree.span.end) {
+    return undefined;
+  }
+  for (const child of tree.children) {
+    const found = nodeAt(child, offset);
+    if (found) {
+      return found;
+    }
+  }
+  return tree;
+}
+
 /**
  * Utility builder for Trees, which may be used for testing purposes.
  */
@@ -65,6 +264,27 @@ class TreeBuilder {
     this.tree.leaf.data = data;
     return this;
   }
+  runs(...runs: TextRun[]): TreeBuilder {
+    if (!this.tree.leaf) {
+      this.tree.leaf = { data: '', isCollapsed: false };
+    }
+    this.tree.leaf.data = runs.map((r) => r.text).join('');
+    this.tree.leaf.runs = runs;
+    return this;
+  }
+  gloss(...glosses: string[]): TreeBuilder {
+    if (!this.tree.leaf) {
+      this.tree.leaf = { data: '', isCollapsed: false };
+    }
+    this.tree.leaf.glosses = (this.tree.leaf.glosses ?? []).concat(
+      glosses.map((g) => ({ data: g }))
+    );
+    return this;
+  }
+  translation(translation: string): TreeBuilder {
+    this.tree.translation = { data: translation };
+    return this;
+  }
   collapse(isCollapsed = true): TreeBuilder {
     if (!this.tree.leaf) {
       this.tree.leaf = { data: '', isCollapsed: false };
@@ -72,6 +292,32 @@ class TreeBuilder {
     this.tree.leaf.isCollapsed = isCollapsed;
     return this;
   }
+  classes(...classes: string[]): TreeBuilder {
+    this.tree.classes = (this.tree.classes ?? []).concat(classes);
+    return this;
+  }
+  attr(key: string, value: string): TreeBuilder {
+    if (!this.tree.attrs) {
+      this.tree.attrs = {};
+    }
+    this.tree.attrs[key] = value;
+    return this;
+  }
+  id(id: string): TreeBuilder {
+    this.tree.id = id;
+    return this;
+  }
+  arrow(
+    target: string,
+    head: Arrow['head'] = 'target',
+    dashed = false
+  ): TreeBuilder {
+    if (!this.tree.arrows) {
+      this.tree.arrows = [];
+    }
+    this.tree.arrows.push({ target: target, head: head, dashed: dashed });
+    return this;
+  }
   add(...treeBuilders: TreeBuilder[]): TreeBuilder {
     treeBuilders.forEach((tb) => this.tree.children.push(tb.build()));
     return this;
@@ -81,4 +327,16 @@ class TreeBuilder {
   }
 }
 
-export { Tree, TreeBuilder };
+export {
+  Tree,
+  Arrow,
+  TextRun,
+  TextLine,
+  Avm,
+  Feature,
+  Example,
+  TreeDocument,
+  TreeBuilder,
+  stripSpans,
+  nodeAt,
+};
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main } from '../src/cli';
+
+/**
+ * Runs the command in a fresh directory holding `files`, collecting its
+ * output.
+ */
+async function run(
+  args: string[],
+  files: { [name: string]: string } = {},
+  stdin = ''
+) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chomtree-'));
+  Object.keys(files).forEach((name) => {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), files[name]);
+  });
+  const cwd = process.cwd();
+  process.chdir(dir);
+  const out = { code: 0, stdout: '', stderr: '', dir: dir };
+  try {
+    out.code = await main(args, {
+      stdin: () => Promise.resolve(stdin),
+      stdout: (text) => (out.stdout += text),
+      stderr: (text) => (out.stderr += text),
+    });
+  } finally {
+    process.chdir(cwd);
+  }
+  return out;
+}
+
+const exists = (dir: string, file: string) =>
+  fs.existsSync(path.join(dir, file));
+
+describe('chomtree', () => {
+  test('writes an SVG beside each file', async () => {
+    const { code, dir } = await run(['a.tree', 'b/c.tree'], {
+      'a.tree': '[S [NP I] [VP ran]]',
+      'b/c.tree': '[NP [D the] [N dog]]',
+    });
+
+    expect(code).toBe(0);
+    const svg = fs.readFileSync(path.join(dir, 'a.svg'), 'utf8');
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg).toContain('>ran</text>');
+    expect(exists(dir, 'b/c.svg')).toBe(true);
+  });
+
+  test('expands globs into an output directory', async () => {
+    const { code, dir } = await run(['figs/**/*.tree', '-o', 'out'], {
+      'figs/a.tree': '[A]',
+      'figs/x/b.tree': '[B]',
+      'figs/x/y/c.tree': '[C]',
+      'figs/d.txt': '[D]',
+    });
+
+    expect(code).toBe(0);
+    expect(exists(dir, 'out/a.svg')).toBe(true);
+    expect(exists(dir, 'out/x/b.svg')).toBe(true);
+    expect(exists(dir, 'out/x/y/c.svg')).toBe(true);
+    expect(exists(dir, 'out/d.svg')).toBe(false);
+  });
+
+  // prettier-ignore
+  test.each([
+    ['*.tree',     ['a.svg']],
+    ['x/?.tree',   ['x/b.svg']],
+    ['**/*.tree',  ['a.svg', 'x/b.svg', 'x/y/c.svg']],
+    ['x/**',       ['x/b.svg', 'x/y/c.svg']],
+  ])('matches %s', async (glob, expected) => {
+    const files = { 'a.tree': '[A]', 'x/b.tree': '[B]', 'x/y/c.tree': '[C]' };
+    const { dir } = await run([glob], files);
+    ['a.svg', 'x/b.svg', 'x/y/c.svg'].forEach((svg) => {
+      expect(exists(dir, svg)).toBe(expected.indexOf(svg) >= 0);
+    });
+  });
+
+  test('skips SVG files when expanding globs', async () => {
+    const { code, stderr } = await run(['x/**'], {
+      'x/a.tree': '[A]',
+      'x/b.svg': '<svg></svg>',
+    });
+    expect(code).toBe(0);
+    expect(stderr).toBe('');
+  });
+
+  test('refuses to overwrite an input', async () => {
+    const { code, stderr, dir } = await run(['a.svg'], { 'a.svg': '[A]' });
+    expect(code).toBe(1);
+    expect(stderr).toBe("a.svg: Output 'a.svg' would overwrite an input\n");
+    expect(fs.readFileSync(path.join(dir, 'a.svg'), 'utf8')).toBe('[A]');
+  });
+
+  test('reads stdin and writes stdout', async () => {
+    const { code, stdout } = await run([], {}, '[NP dog]');
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/^<svg[^]*>dog<\/text>[^]*<\/svg>\n$/);
+  });
+
+  test('reads render options from a file', async () => {
+    const { stdout } = await run(
+      ['-c', 'options.json', '-'],
+      { 'options.json': '{ "style": { "maxScale": 1, "boxes": false } }' },
+      '[NP dog]'
+    );
+    expect(stdout).not.toContain('<rect');
+    expect(stdout).toMatch(/width="[\d.]+" height="[\d.]+"/);
+  });
+
+  test('reports errors by file, line and column', async () => {
+    const { code, stderr, dir } = await run(['*.tree'], {
+      'good.tree': '[A]',
+      'bad.tree': '[S\n  [NP I]}]',
+    });
+
+    expect(code).toBe(1);
+    expect(stderr).toBe(
+      "bad.tree:2:9: Unexpected '}'\n  [NP I]}]\n        ^\n"
+    );
+    expect(exists(dir, 'good.svg')).toBe(true);
+    expect(exists(dir, 'bad.svg')).toBe(false);
+  });
+
+  test('only parses in check mode', async () => {
+    const ok = await run(['--check', 'a.tree'], { 'a.tree': '[A]' });
+    expect(ok.code).toBe(0);
+    expect(exists(ok.dir, 'a.svg')).toBe(false);
+
+    const bad = await run(['--check', 'a.tree'], { 'a.tree': '[A [B]' });
+    expect(bad.code).toBe(1);
+    expect(bad.stderr).toMatch(/^a\.tree:1:7: Unclosed '\['/);
+  });
+
+  // prettier-ignore
+  test.each([
+    [['missing.tree'],       1, 'missing.tree: ENOENT'],
+    [['*.none'],             1, "chomtree: No files match '*.none'"],
+    [['--bogus'],            2, "chomtree: Unknown option '--bogus'"],
+    [['a.tree', '-o'],       2, "chomtree: Missing value for '-o'"],
+    [['-c', 'missing.json'], 2, 'chomtree: ENOENT'],
+  ])('fails on %p', async (args, code, message) => {
+    const out = await run(args);
+    expect(out.code).toBe(code);
+    expect(out.stderr.indexOf(message)).toBe(0);
+  });
+
+  test('shows usage', async () => {
+    const { code, stdout } = await run(['--help']);
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/^Usage: chomtree/);
+  });
+});
@@ -0,0 +1,40 @@
+import { makeConfig } from '../src/config';
+
+describe('makeConfig', () => {
+  test('returns the defaults without options', () => {
+    const config = makeConfig();
+
+    expect(config.spacing.margin).toEqual({ x: 0.75, y: 1 });
+    expect(config.style.fontSize.nodeData).toBe(0.9);
+    expect(config.style.boxes).toBe(true);
+    expect(config.layout).toEqual({
+      orientation: 'top-down',
+      alignTerminals: false,
+      compact: false,
+    });
+    expect(config.transition.duration).toBe(250);
+    expect(config.transition.ease).toBeNull();
+  });
+
+  test('deep-merges options over the defaults', () => {
+    const config = makeConfig({
+      spacing: { margin: { x: 2 } },
+      style: { fontSize: { script: 0.5 }, fontFamily: 'serif', boxes: false },
+    });
+
+    expect(config.spacing.margin).toEqual({ x: 2, y: 1 });
+    expect(config.spacing.padding).toEqual({ x: 0, y: 0.25 });
+    expect(config.style.fontSize).toEqual({
+      nodeType: 1,
+      nodeData: 0.9,
+      script: 0.5,
+    });
+    expect(config.style.fontFamily).toBe('serif');
+    expect(config.style.boxes).toBe(false);
+  });
+
+  test('does not modify the defaults', () => {
+    makeConfig({ spacing: { margin: { x: 2 } } });
+    expect(makeConfig().spacing.margin.x).toBe(0.75);
+  });
+});
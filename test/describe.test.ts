@@ -0,0 +1,37 @@
+import { parse } from '../src/parser';
+import { nodeLabel, bracketing, title, description } from '../src/describe';
+
+describe('bracketing', () => {
+  // prettier-ignore
+  test.each([
+    ['[NP [D the] [N dog]]',                 '[NP [D the] [N dog]]'],
+    ['[CP [NP_i^wh#a what] [C did] [NP>a t]]', '[CP [NP_i^wh what] [C did] [NP t]]'],
+    ['[NP* the big dog]',                    '[NP the big dog]'],
+    ['[N {i perro} | dog]',                  '[N perro]'],
+    ['[X{a k=v} [Y]]',                       '[X [Y]]'],
+  ])('of %s', (markup, expected) => {
+    expect(bracketing(parse(markup))).toBe(expected);
+  });
+});
+
+describe('labels', () => {
+  // prettier-ignore
+  test.each([
+    ['[NP]',              'NP'],
+    ['[NP_i t]',          'NP_i, t'],
+    ['[N perro | dog]',   'N, perro, dog'],
+  ])('of node %s', (markup, expected) => {
+    expect(nodeLabel(parse(markup))).toBe(expected);
+  });
+
+  test('of a whole tree', () => {
+    const tree = parse(
+      '[S [NP [N perro]] [VP [V ∅] [V ladró]]] | The dog barked.'
+    );
+    expect(title(tree)).toBe('Syntax tree: perro ladró');
+    expect(description(tree)).toBe(
+      '[S [NP [N perro]] [VP [V ∅] [V ladró]]]\nThe dog barked.'
+    );
+    expect(title(parse('[S [NP] [VP]]'))).toBe('Syntax tree');
+  });
+});
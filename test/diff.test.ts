@@ -0,0 +1,164 @@
+import { parse } from '../src/parser';
+import { Tree } from '../src/tree';
+import { descendants } from '../src/query';
+import { bracketing } from '../src/describe';
+import { TreeDiff, diffTrees, markDiff, overlayDiff } from '../src/diff';
+
+/**
+ * Changes of `diff` as text, naming each node by its bracketing.
+ */
+function changes(diff: TreeDiff) {
+  const name = (n?: Tree) => (n ? bracketing(n) : '');
+  return diff.changes.map((c) =>
+    [c.kind, name(c.a), name(c.b)].filter((p) => p !== '').join(' ')
+  );
+}
+
+/**
+ * Classes given by `markDiff` or `overlayDiff`, for each node in pre-order.
+ */
+function classes(tree: Tree) {
+  return descendants(tree).map((n) =>
+    (n.classes ?? []).filter((c) => c.indexOf('diff-') === 0).join(' ')
+  );
+}
+
+describe('diffTrees', () => {
+  // prettier-ignore
+  test.each([
+    ['[S [NP John] [VP ran]]', '[S [NP John] [VP ran]]', []],
+    ['[NP [D the] [N dog]]', '[NP [D a] [N dog]]', ['relabeled [D the] [D a]']],
+    ['[NP [D the] [N dog]]', '[DP [D the] [N dog]]', [
+      'relabeled [NP [D the] [N dog]] [DP [D the] [N dog]]',
+    ]],
+    ['[NP_i [N dog]]', '[NP_j^wh [N dog]]', [
+      'relabeled [NP_i [N dog]] [NP_j^wh [N dog]]',
+    ]],
+    ['[NP [N\' [N dog]]]', '[NP [N dog]]', ["deleted [N' [N dog]]"]],
+    ['[NP [N dog]]', '[NP [N\' [N dog]]]', ["inserted [N' [N dog]]"]],
+    ['[VP [V ran]]', '[VP [V ran] [Adv quickly]]', ['inserted [Adv quickly]']],
+    ['[VP [V ran] [Adv quickly]]', '[VP [V ran]]', ['deleted [Adv quickly]']],
+  ])('%s to %s', (a, b, expected) => {
+    expect(changes(diffTrees(parse(a), parse(b)))).toEqual(expected);
+  });
+
+  test('finds moved words', () => {
+    const diff = diffTrees(
+      parse("[CP [C' [C did] [TP [NP you] [VP [V see] [NP what]]]]]"),
+      parse("[CP [NP what] [C' [C did] [TP [NP you] [VP [V see]]]]]")
+    );
+    expect(changes(diff)).toEqual(['moved [NP what] [NP what]']);
+  });
+
+  test('finds constituents attached elsewhere', () => {
+    const diff = diffTrees(
+      parse('[S [NP I] [VP [V saw] [NP [D the] [N man] [PP with it]]]]'),
+      parse('[S [NP I] [VP [V saw] [NP [D the] [N man]] [PP with it]]]')
+    );
+    expect(changes(diff)).toEqual(['moved [PP with it] [PP with it]']);
+  });
+
+  test('finds constituents moved out of their parent', () => {
+    const diff = diffTrees(
+      parse('[S [NP I] [VP [V saw] [NP [D a] [N cat]]]]'),
+      parse('[S [NP I] [VP [V saw]] [NP [D a] [N cat]]]')
+    );
+    expect(changes(diff)).toEqual([
+      'moved [NP [D a] [N cat]] [NP [D a] [N cat]]',
+    ]);
+  });
+
+  test('finds constituents moved into another', () => {
+    const diff = diffTrees(
+      parse('[S [NP I] [VP [V saw]] [PP [P with] [NP it]]]'),
+      parse('[S [NP I] [VP [V saw] [PP [P with] [NP it]]]]')
+    );
+    expect(changes(diff)).toEqual([
+      'moved [PP [P with] [NP it]] [PP [P with] [NP it]]',
+    ]);
+  });
+
+  test('moves swapped words of the same type', () => {
+    const diff = diffTrees(
+      parse('[S [A the] [B the]]'),
+      parse('[S [B the] [A the]]')
+    );
+    expect(changes(diff)).toEqual(['moved [A the] [A the]']);
+  });
+
+  test('matches every aligned node', () => {
+    const a = parse("[NP [D the] [N' [N dog]]]");
+    const b = parse('[NP [D a] [N dog]]');
+    const { matches } = diffTrees(a, b);
+    const [np, d, , n] = descendants(a);
+
+    expect(matches).toEqual([
+      { a: np, b: b },
+      { a: d, b: b.children[0] },
+      { a: n, b: b.children[1] },
+    ]);
+  });
+});
+
+describe('marking', () => {
+  const a = parse("[NP [D the] [N' [AP big] [N dog]]]");
+  const b = parse('[NP{x} [D a] [N dog] [PP [P of] [N mine]]]');
+  const diff = diffTrees(a, b);
+
+  test('marks both trees', () => {
+    const [markedA, markedB] = markDiff(a, b, diff);
+
+    expect(classes(markedA)).toEqual([
+      '',
+      'diff-relabeled',
+      'diff-deleted',
+      'diff-deleted',
+      '',
+    ]);
+    expect(classes(markedB)).toEqual([
+      '',
+      'diff-relabeled',
+      '',
+      'diff-inserted',
+      'diff-inserted',
+      'diff-inserted',
+    ]);
+    expect(markedB.classes).toEqual(['x']);
+    expect(descendants(markedB).map((n) => n.attrs?.['diff-match'])).toEqual([
+      '0',
+      '1',
+      '2',
+      undefined,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  test('leaves the trees as they were', () => {
+    markDiff(a, b, diff);
+    overlayDiff(a, b, diff);
+
+    expect(classes(a).concat(classes(b)).join('')).toBe('');
+    expect(b.attrs).toBeUndefined();
+    expect(b.children).toHaveLength(3);
+  });
+
+  test('overlays deleted nodes on the second tree', () => {
+    const overlay = overlayDiff(a, b, diff);
+
+    expect(bracketing(overlay)).toBe(
+      "[NP [D a] [N' [AP big]] [N dog] [PP [P of] [N mine]]]"
+    );
+    expect(classes(overlay)).toEqual([
+      '',
+      'diff-relabeled',
+      'diff-deleted',
+      'diff-deleted',
+      '',
+      'diff-inserted',
+      'diff-inserted',
+      'diff-inserted',
+    ]);
+    expect(overlay.children[0].attrs?.['diff-from']).toBe('D the');
+  });
+});
@@ -0,0 +1,117 @@
+import { defineElement } from '../src/index';
+import { mockBBox, wait } from './helpers';
+
+mockBBox();
+
+// Importing the library alone must not define the element.
+const definedOnImport = customElements.get('chom-tree') !== undefined;
+defineElement();
+
+function mount(html: string) {
+  document.body.innerHTML = html;
+  return document.querySelector('chom-tree') as HTMLElement;
+}
+
+const shadow = (el: HTMLElement) => el.shadowRoot as ShadowRoot;
+const labels = (el: HTMLElement) =>
+  Array.prototype.slice
+    .call(shadow(el).querySelectorAll('g.node:not(.exiting) .nodeType'))
+    .map((t: Element) => t.textContent);
+const errors = (el: HTMLElement) =>
+  Array.prototype.slice
+    .call(shadow(el).querySelectorAll('pre'))
+    .map((p: Element) => p.textContent);
+
+describe('<chom-tree>', () => {
+  test('renders its content in its shadow DOM', () => {
+    const el = mount('<chom-tree>[S [NP I] [VP ran]]</chom-tree>');
+
+    expect(labels(el)).toEqual(['S', 'NP', 'VP']);
+    expect(shadow(el).querySelector('svg')?.getAttribute('part')).toBe('tree');
+    expect(document.querySelectorAll('svg')).toHaveLength(0);
+  });
+
+  test('is defined only when asked', () => {
+    expect(definedOnImport).toBe(false);
+  });
+
+  test('is defined only once', () => {
+    expect(() => defineElement()).not.toThrow();
+  });
+
+  test('re-renders when its content changes', async () => {
+    const el = mount('<chom-tree>[S [NP I] [VP ran]]</chom-tree>');
+    const svg = shadow(el).querySelector('svg');
+    el.textContent = '[S [NP You] [VP ran]]';
+    await wait(0);
+
+    expect(shadow(el).querySelector('svg')).toBe(svg);
+    expect(shadow(el).querySelector('.nodeData')?.textContent).toBe('You');
+  });
+
+  test('takes render options from attributes', async () => {
+    const el = mount(
+      '<chom-tree options=\'{"style": {"boxes": false}}\'>[S [NP I]]</chom-tree>'
+    );
+    expect(shadow(el).querySelectorAll('rect')).toHaveLength(0);
+
+    el.setAttribute('collapsible', '');
+    await wait(0);
+    expect(shadow(el).querySelectorAll('g.collapsible')).toHaveLength(1);
+
+    const viewBox = shadow(el).querySelector('svg')?.getAttribute('viewBox');
+    el.setAttribute('orientation', 'left-right');
+    expect(shadow(el).querySelector('svg')?.getAttribute('viewBox')).not.toBe(
+      viewBox
+    );
+  });
+
+  test('shows parse errors inline', async () => {
+    const el = mount('<chom-tree>[S [NP I] [VP ran]</chom-tree>');
+    expect(errors(el)).toHaveLength(1);
+    expect(errors(el)[0]).toMatch(/^Unclosed '\['/);
+    expect(labels(el)).toEqual(['S', 'NP', 'VP']);
+
+    el.textContent = '[S [NP I] [VP ran]]';
+    await wait(0);
+    expect(errors(el)).toEqual([]);
+  });
+
+  test('shows invalid options inline', () => {
+    const el = mount('<chom-tree options="{">[S]</chom-tree>');
+    expect(errors(el)).toHaveLength(1);
+  });
+
+  describe('src', () => {
+    const responses: { [url: string]: string } = {
+      'a.tree': '[S [NP I] [VP ran]]',
+      'b.tree': '[NP [D the] [N dog]]',
+    };
+    beforeEach(() => {
+      window.fetch = jest.fn((url: string) =>
+        Promise.resolve({
+          ok: url in responses,
+          status: url in responses ? 200 : 404,
+          statusText: url in responses ? 'OK' : 'Not Found',
+          text: () => Promise.resolve(responses[url]),
+        })
+      ) as jest.Mock;
+    });
+
+    test('renders the markup at src', async () => {
+      const el = mount('<chom-tree src="a.tree">[X]</chom-tree>');
+      await wait(0);
+      expect(labels(el)).toEqual(['S', 'NP', 'VP']);
+
+      el.setAttribute('src', 'b.tree');
+      await wait(0);
+      expect(labels(el)).toEqual(['NP', 'D', 'N']);
+    });
+
+    test('shows failed requests inline', async () => {
+      const el = mount('<chom-tree src="c.tree"></chom-tree>');
+      await wait(0);
+      expect(errors(el)).toEqual(["Could not load 'c.tree': 404 Not Found"]);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Sizes the boxes of SVG elements by the character count of their text, as
+ * jsdom does not lay out text.
+ */
+function mockBBox(): void {
+  Object.defineProperty(window.SVGElement.prototype, 'getBBox', {
+    configurable: true,
+    value: function (this: SVGElement) {
+      return { x: 0, y: 0, width: (this.textContent ?? '').length, height: 1 };
+    },
+  });
+}
+
+/**
+ * Resolves after `ms` milliseconds, once pending transitions and observers
+ * have had a chance to run.
+ */
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export { mockBBox, wait };
@@ -0,0 +1,145 @@
+import { parse } from '../src/parser';
+import { toLatex } from '../src/latex';
+import { TreeBuilder } from '../src/tree';
+
+const tree = parse('[NP_i [D the] [AdjP* big red] [N /]]');
+
+describe('toLatex', () => {
+  test('writes forest', () => {
+    expect(toLatex(tree)).toBe(
+      [
+        '\\begin{forest}',
+        '[NP$_{i}$',
+        '  [D [the]]',
+        '  [AdjP [big red, roof]]',
+        '  [N [$\\emptyset$]]',
+        ']',
+        '\\end{forest}',
+      ].join('\n')
+    );
+  });
+
+  test('writes tikz-qtree', () => {
+    expect(toLatex(tree, { format: 'tikz-qtree' })).toBe(
+      [
+        '\\begin{tikzpicture}',
+        '\\Tree [.{NP$_{i}$}',
+        '  [.D the ]',
+        '  [.AdjP \\edge[roof]; {big red} ]',
+        '  [.N {$\\emptyset$} ]',
+        ']',
+        '\\end{tikzpicture}',
+      ].join('\n')
+    );
+  });
+
+  test('writes qtree', () => {
+    expect(toLatex(tree, { format: 'qtree', indent: '' })).toBe(
+      [
+        '\\Tree [.{NP$_{i}$}',
+        '[.D the ]',
+        '\\qroof{big red}.AdjP',
+        '[.N {$\\emptyset$} ]',
+        ']',
+      ].join('\n')
+    );
+  });
+
+  test('writes superscripts and empty nodes', () => {
+    const t = parse('[X^2_1 [] [Y]]');
+
+    expect(toLatex(t, { format: 'qtree', indent: ' ' })).toBe(
+      '\\Tree [.{X$_{1}$$^{2}$}\n {}\n Y\n]'
+    );
+    expect(toLatex(t)).toContain('[X$_{1}$$^{2}$\n  []\n  [Y]\n]');
+  });
+
+  test('escapes LaTeX special characters', () => {
+    const t = new TreeBuilder()
+      .name('X')
+      .data('100% & $5 {a} #1 ~b c\\d')
+      .build();
+
+    expect(toLatex(t, { format: 'qtree' })).toBe(
+      '\\Tree [.X {100\\% \\& \\$5 \\{a\\} \\#1 ' +
+        '\\textasciitilde{}b c\\textbackslash{}d} ]'
+    );
+  });
+
+  test('writes formatted data', () => {
+    const t = parse('[N {i the} {s {b dog}}_i ]');
+
+    expect(toLatex(t)).toContain(
+      '[N [\\textit{the} \\sout{\\textbf{dog}}$_{i}$]]'
+    );
+  });
+
+  test('stacks glosses and adds the translation', () => {
+    const t = parse('[NP* el perro | the dog] | A dog.');
+
+    expect(toLatex(t)).toBe(
+      [
+        '\\begin{forest}',
+        '[NP [el perro \\\\ the dog, align=center, roof]]',
+        '\\end{forest}',
+        '',
+        'A dog.',
+      ].join('\n')
+    );
+    expect(toLatex(t, { format: 'tikz-qtree' })).toContain(
+      '\\edge[roof]; \\node[align=center]{el perro \\\\ the dog}; ]'
+    );
+    expect(toLatex(t, { format: 'qtree' })).toBe(
+      '\\Tree \\qroof{el perro \\\\ the dog}.NP\n\nA dog.'
+    );
+  });
+
+  test('writes untyped leaves bare', () => {
+    const t = new TreeBuilder()
+      .name('NP')
+      .add(new TreeBuilder().data('dogs'))
+      .build();
+
+    expect(toLatex(t)).toContain('[NP\n  [dogs]\n]');
+    expect(toLatex(t, { format: 'qtree', indent: '' })).toBe(
+      '\\Tree [.NP\ndogs\n]'
+    );
+  });
+
+  test('writes shared nodes under each parent', () => {
+    const t = parse('[S [NP#o it] [VP [V saw] [#o]]]');
+    expect(toLatex(t, { format: 'qtree', indent: '' })).toBe(
+      '\\Tree [.S\n[.NP it ]\n[.VP\n[.V saw ]\n[.NP it ]\n]\n]'
+    );
+  });
+
+  test('braces forest content with commas', () => {
+    expect(toLatex(parse('[X a, b]'))).toContain('[X [{a, b}]]');
+  });
+
+  test('applies class styles', () => {
+    const t = new TreeBuilder()
+      .name('VP')
+      .add(
+        new TreeBuilder().name('V').data('ran'),
+        new TreeBuilder().name('NP')
+      )
+      .build();
+    t.children[0].classes = ['head', 'unstyled'];
+    const styles = { head: 'draw' };
+
+    expect(toLatex(t, { styles })).toContain('[V, draw [ran]]');
+    expect(toLatex(t, { format: 'tikz-qtree', styles })).toContain(
+      '[.\\node[draw]{V}; ran ]'
+    );
+    expect(
+      toLatex(t, { format: 'qtree', styles: { head: '\\textbf' } })
+    ).toContain('[.{\\textbf{V}} ran ]');
+  });
+
+  test('uses the given macro for empty data', () => {
+    expect(toLatex(parse('[T /]'), { empty: '$\\varnothing$' })).toContain(
+      '[T [$\\varnothing$]]'
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { parse } from '../src/parser';
+import { lint, LintRules } from '../src/lint';
+import { barLevel } from '../src/query';
+
+/**
+ * Lints `markup` with only `rule` enabled, returning the messages.
+ */
+function only(rule: string, markup: string) {
+  const rules: LintRules = {
+    'xbar-head': 'off',
+    'xbar-levels': 'off',
+    'binary-branching': 'off',
+    'no-unary-chains': 'off',
+    'leaf-placement': 'off',
+  };
+  rules[rule] = 'warning';
+  return lint(parse(markup), rules).map((d) => d.message);
+}
+
+describe('barLevel', () => {
+  // prettier-ignore
+  test.each([
+    ['NP', 2], ['PP', 2], ["N'", 1], ["N''", 1], ['N-bar', 1], ['N', 0],
+    ['N0', 0], ['P', 0], ['S', 0],
+  ])('of %s is %d', (name, level) => {
+    expect(barLevel(parse(`[${name}]`))).toBe(level);
+  });
+});
+
+describe('built-in rules', () => {
+  // prettier-ignore
+  test.each([
+    ['xbar-head', "[NP [D the] [N' [N dog]]]", []],
+    ['xbar-head', '[VP [V saw] [NP [N cats]]]', []],
+    ['xbar-head', '[NP [D the] [AP [A big]]]', ['NP has no head of category N']],
+    ['xbar-head', "[N' [A big] [D the]]", ['N\' has no head of category N']],
+    ['xbar-head', '[NP* the dog]', []],
+    ['xbar-head', '[NP John]', []],
+    ['xbar-levels', "[NP [D the] [N' [N dog]]]", []],
+    ['xbar-levels', '[NP [NP dogs] [PP [P with] [NP hats]]]', []],
+    ['xbar-levels', "[N' [NP dogs]]", ["NP is a higher projection than its parent N'"]],
+    ['xbar-levels', '[N [N_i dog]]', []],
+    ['xbar-levels', "[S [NP#o [N dog]] [N' [A big] [#o]]]", ["NP is a higher projection than its parent N'"]],
+    ['binary-branching', '[VP [V gave] [NP her]]', []],
+    ['binary-branching', '[VP [V gave] [NP her] [NP it]]', ['VP has 3 children, not at most 2']],
+    ['binary-branching', '[[CAT v, VFORM fin] [A a] [B b] [C c]]', ['[CAT v, VFORM fin] has 3 children, not at most 2']],
+    ['no-unary-chains', "[NP [N' [A big] [N dog]]]", []],
+    ['no-unary-chains', "[NP [N' [N dog]]]", ['NP begins a chain of non-branching nodes']],
+    ['leaf-placement', "[NP [N' [N dog]]]", []],
+    ['leaf-placement', '[NP_i t]', []],
+    ['leaf-placement', "[NP [N' dog]]", ["'dog' is the data of N', not of a head"]],
+    ['leaf-placement', '[TP [NP John] [T]]', ['T has no data']],
+    ['leaf-placement', '[TP [NP John] [T ∅]]', []],
+  ])('%s on %s', (rule, markup, messages) => {
+    expect(only(rule, markup)).toEqual(messages);
+  });
+});
+
+describe('lint', () => {
+  test('finds every problem, in order of their nodes', () => {
+    const tree = parse('[XP [X a] [YP b] [ZP [W c]]]');
+    expect(lint(tree).map((d) => [d.rule, d.severity, d.node])).toEqual([
+      ['binary-branching', 'warning', tree],
+      ['xbar-head', 'error', tree.children[2]],
+    ]);
+  });
+
+  test('checks shared nodes once', () => {
+    const tree = parse("[S [XP#o [N' dog]] [VP [V saw] [#o]]]");
+    expect(lint(tree).map((d) => d.message)).toEqual([
+      'XP has no head of category X',
+      "'dog' is the data of N', not of a head",
+    ]);
+  });
+
+  test('locates diagnostics in the markup', () => {
+    const input = "[S\n  [NP [N' dog]]]";
+    const [d] = lint(parse(input), { 'no-unary-chains': 'off' }, input);
+
+    expect(d).toMatchObject({
+      rule: 'leaf-placement',
+      span: { start: 9, end: 17 },
+      line: 2,
+      column: 7,
+    });
+    expect(d.snippet).toBe("  [NP [N' dog]]]\n      ^^^^^^^^");
+  });
+
+  test('leaves out locations of trees not parsed', () => {
+    const tree = parse("[N' dog]");
+    delete tree.span;
+    expect(lint(tree)[0].span).toBeUndefined();
+    expect(lint(tree)[0].line).toBeUndefined();
+  });
+
+  test('changes severities and turns rules off', () => {
+    const tree = parse('[VP [V gave] [NP her] [NP it]]');
+    expect(lint(tree, { 'binary-branching': 'error' })[0].severity).toBe(
+      'error'
+    );
+    expect(lint(tree, { 'binary-branching': 'off' })).toEqual([]);
+  });
+
+  test('rejects unknown rules', () => {
+    const tree = parse('[VP [V gave] [NP her] [NP it]]');
+    expect(() => lint(tree, { 'binary-branch': 'error' })).toThrow(
+      "Unknown lint rule 'binary-branch'"
+    );
+  });
+
+  test('adds custom rules', () => {
+    const tree = parse('[S [NP_i John] [VP [V saw] [NP_i himself]]]');
+    const diagnostics = lint(tree, {
+      'no-traces': {
+        check: (n) => (n.leaf?.data === 't' ? 'Trace left' : undefined),
+      },
+      'no-index': {
+        severity: 'error',
+        check: (n, { parent }) =>
+          n.nodeType?.sub && parent?.nodeType?.name === 'VP'
+            ? 'Indexed object'
+            : undefined,
+      },
+    });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      rule: 'no-index',
+      severity: 'error',
+      message: 'Indexed object',
+      node: tree.children[1].children[1],
+    });
+  });
+});
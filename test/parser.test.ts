@@ -1,9 +1,10 @@
-import { tokenize, parse } from '../src/parser';
-import { Tree, TreeBuilder } from '../src/tree';
+import { tokenize, parse, parseDocument } from '../src/parser';
+import { Tree, TextLine, TreeBuilder, stripSpans, nodeAt } from '../src/tree';
+import { ParseError } from '../src/error';
 
 describe('tokenize (lexer)', () => {
   test('tokenizes symbols', () => {
-    const symbols = ['.', '*', '/', '_', '^', '[', ']'];
+    const symbols = ['.', '*', '/', '_', '^', '[', ']', '{', '}', '='];
     const toks = tokenize(symbols.join(''));
 
     symbols.forEach((sym) => {
@@ -28,6 +29,49 @@ describe('tokenize (lexer)', () => {
     expect(toks.next().done).toBeTruthy();
   });
 
+  test('reads comments as whitespace', () => {
+    const toks = tokenize('a % b [c]\n  % d\n%e');
+
+    expect(toks.next().value.kind).toBe('WORD');
+    expect(toks.next().value).toEqual({
+      kind: 'WHITESPACE',
+      value: ' ',
+      start: 1,
+      end: 2,
+    });
+    expect(toks.next().value).toEqual({
+      kind: 'WHITESPACE',
+      value: '\n  \n',
+      start: 2,
+      end: 18,
+    });
+    expect(toks.next().done).toBeTruthy();
+  });
+
+  test('reads % after whitespace in text as a word', () => {
+    const toks = tokenize('a % b');
+
+    toks.next();
+    toks.next(true);
+    expect(toks.next(true).value).toEqual({
+      kind: 'WORD',
+      value: '%',
+      start: 2,
+      end: 3,
+    });
+  });
+
+  test('reads % within a word as part of it', () => {
+    const toks = tokenize('50% b');
+
+    expect(toks.next().value).toEqual({
+      kind: 'WORD',
+      value: '50%',
+      start: 0,
+      end: 3,
+    });
+  });
+
   test('tokenizes words as whole tokens', () => {
     const words = ['a', 'aa', 'aaa'];
     const toks = tokenize(words.join(' ') + ' ');
@@ -66,6 +110,49 @@ describe('tokenize (lexer)', () => {
 
     expect(toks.next().done).toBeTruthy();
   });
+
+  test.each(
+    // prettier-ignore
+    [['a\\.b', 'a.b'],
+     ['\\[\\\\', '[\\'],
+     ['"a [b]  c"', 'a [b]  c'],
+     ['C"[+Q]"x', 'C[+Q]x'],
+     ['"say \\"hi\\""', 'say "hi"'],
+     ['""', ''],
+    ]
+  )("reads escapes and quotes in '%s'", (str, value) => {
+    const toks = tokenize(str);
+    const tok = toks.next().value;
+
+    expect(tok).toEqual({
+      kind: 'WORD',
+      value: value,
+      start: 0,
+      end: str.length,
+    });
+    expect(toks.next().done).toBeTruthy();
+  });
+
+  test('records token positions', () => {
+    const toks = tokenize('[X  data]');
+
+    [
+      ['[', 0, 1],
+      ['WORD', 1, 2],
+      ['WHITESPACE', 2, 4],
+      ['WORD', 4, 8],
+      [']', 8, 9],
+    ].forEach(([kind, start, end]) => {
+      const tok = toks.next().value;
+      expect(tok.kind).toBe(kind);
+      expect(tok.start).toBe(start);
+      expect(tok.end).toBe(end);
+    });
+
+    const eof = toks.next();
+    expect(eof.done).toBeTruthy();
+    expect(eof.value).toEqual({ kind: 'EOF', start: 9, end: 9 });
+  });
 });
 
 describe('parse', () => {
@@ -128,7 +215,8 @@ describe('parse', () => {
      ['[X [Y] [Z]]', T('X').add(T('Y'), T('Z'))],
      ['[X* data]', T('X').add( T().data('data').collapse() )],
      ['[X this_data ^ has./punct* ]',
-      T('X').data('this_data ^ has./punct* ')],
+      T('X').runs({ text: 'this' }, { text: 'data', script: 'sub' },
+                  { text: ' ^ has./punct* ' })],
      ['[X       data]', T('X').data('data')],
      ['[X data    data]', T('X').data('data    data')],
      ['[X data  ]', T('X').data('data  ')],
@@ -143,6 +231,692 @@ describe('parse', () => {
      ['[X*X.X data]', T('X').add( T().data('X.X data').collapse())]
     ]
   )('correctly builds Tree from "%s"', (str, tree) => {
-    expect(parse(str)).toEqual(tree.build());
+    expect(stripSpans(parse(str))).toEqual(tree.build());
+  });
+
+  function parseError(str: string): ParseError {
+    try {
+      parse(str);
+    } catch (err) {
+      return err;
+    }
+    throw new Error(`'${str}' was accepted`);
+  }
+
+  test('throws ParseError with location and expected tokens', () => {
+    const err = parseError('[X\n  [Y a] b]');
+
+    expect(err).toBeInstanceOf(ParseError);
+    expect(err.offset).toBe(11);
+    expect(err.line).toBe(2);
+    expect(err.column).toBe(9);
+    expect(err.found).toBe("'b'");
+    expect(err.expected).toEqual(["'['", "']'"]);
+    expect(err.snippet).toBe('  [Y a] b]\n        ^');
+    expect(err.message).toBe("Unexpected 'b' (line 2, column 9)");
+  });
+
+  test('reports unclosed brackets at the opening bracket', () => {
+    const err = parseError('[X [Y a]');
+
+    expect(err.found).toBe('end of input');
+    expect(err.expected).toContain("']'");
+    expect(err.offset).toBe(8);
+    expect(err.message).toMatch(/^Unclosed '\[' opened at line 1, column 1/);
+  });
+
+  test.each([
+    ['[X_]', 'Missing subscript'],
+    ['[X^ ]', 'Missing superscript'],
+    ['[X_1^]', 'Missing superscript'],
+  ])("reports missing scripts in '%s'", (str, reason) => {
+    expect(parseError(str).message).toMatch(reason);
+  });
+
+  test('reports text after the root node', () => {
+    const err = parseError('[X] [Y]');
+
+    expect(err.message).toMatch(/^Unexpected text after the root node/);
+    expect(err.expected).toEqual(["'|'", 'end of input']);
+    expect(err.snippet).toBe('[X] [Y]\n    ^');
+  });
+
+  test('underlines whole words', () => {
+    expect(parseError('X[]').snippet).toBe('X[]\n^');
+    expect(parseError('[X.X data extra] foo').snippet).toBe(
+      '[X.X data extra] foo\n                 ^^^'
+    );
+  });
+});
+
+describe('parse (recovering)', () => {
+  function T(name?: string) {
+    let tb = new TreeBuilder();
+    if (name) {
+      tb = tb.name(name);
+    }
+    return tb;
+  }
+
+  test('returns the tree and no diagnostics for valid input', () => {
+    const result = parse('[X [Y a] [Z b]]', { recover: true });
+
+    expect(result.tree).toEqual(parse('[X [Y a] [Z b]]'));
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test.each(
+    // prettier-ignore
+    [['[X [Y a', T('X').add(T('Y').data('a')), 2],
+     ['[X [Y a] b]', T('X').add(T('Y').data('a')), 1],
+     ['[X [Y a]]] [Z]', T('X').add(T('Y').data('a')), 1],
+     ['[X a [Y b]]', T('X').data('a ').add(T('Y').data('b')), 1],
+     ['[X.]', T('X').add(T('?')), 1],
+     ['[X_ [Y]]', T('X').add(T('Y')), 1],
+     ['[X * ]', T('X').add(T().data('').collapse()), 1],
+     ['[* a b c]', T(), 1],
+     ['X [Y]', T('X').add(T('Y')), 1],
+     ['', T(), 1],
+    ]
+  )("recovers from '%s'", (str, tree, count) => {
+    const { tree: result, diagnostics } = parse(str, { recover: true });
+
+    expect(stripSpans(result)).toEqual(tree.build());
+    expect(diagnostics).toHaveLength(count);
+    diagnostics.forEach((d) => expect(d).toBeInstanceOf(ParseError));
+  });
+
+  test('auto-closes every unclosed bracket', () => {
+    const { diagnostics } = parse('[X [Y [Z', { recover: true });
+
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Unclosed '[' opened at line 1, column 7 (line 1, column 9)",
+      "Unclosed '[' opened at line 1, column 4 (line 1, column 9)",
+      "Unclosed '[' opened at line 1, column 1 (line 1, column 9)",
+    ]);
+  });
+});
+
+describe('parse (source spans)', () => {
+  function text(input: string, span?: { start: number; end: number }) {
+    return span ? input.slice(span.start, span.end) : undefined;
+  }
+
+  test('spans nodes, node types and leaves', () => {
+    const input = ' [X_1^2 [Y  some data ] [Z /]] ';
+    const tree = parse(input);
+    const [y, z] = tree.children;
+
+    expect(text(input, tree.span)).toBe('[X_1^2 [Y  some data ] [Z /]]');
+    expect(text(input, tree.nodeType?.span)).toBe('X_1^2');
+    expect(text(input, y.span)).toBe('[Y  some data ]');
+    expect(text(input, y.nodeType?.span)).toBe('Y');
+    expect(text(input, y.leaf?.span)).toBe('some data ');
+    expect(text(input, z.leaf?.span)).toBe('/');
+  });
+
+  test('spans shorthand chains and collapsed leaves', () => {
+    const input = '[X.Y_i.Z* a b]';
+    const tree = parse(input);
+    const y = tree.children[0];
+    const z = y.children[0];
+    const collapsed = z.children[0];
+
+    expect(text(input, y.span)).toBe('Y_i.Z* a b]');
+    expect(text(input, y.nodeType?.span)).toBe('Y_i');
+    expect(text(input, z.span)).toBe('Z* a b]');
+    expect(text(input, collapsed.span)).toBe('* a b');
+    expect(text(input, collapsed.leaf?.span)).toBe('* a b');
+  });
+
+  test('spans empty nodes', () => {
+    const input = '[X [] ]';
+    expect(text(input, parse(input).children[0].span)).toBe('[]');
+  });
+
+  test('nodeAt finds the innermost node at an offset', () => {
+    const input = '[X [Y a] [Z b]]';
+    const tree = parse(input);
+
+    expect(nodeAt(tree, 0)).toBe(tree);
+    expect(nodeAt(tree, 4)).toBe(tree.children[0]);
+    expect(nodeAt(tree, 12)).toBe(tree.children[1]);
+    expect(nodeAt(tree, 8)).toBe(tree);
+    expect(nodeAt(tree, 15)).toBeUndefined();
+  });
+});
+
+describe('parse (names and arrows)', () => {
+  function T(name?: string) {
+    let tb = new TreeBuilder();
+    if (name) {
+      tb = tb.name(name);
+    }
+    return tb;
+  }
+
+  test.each(
+    // prettier-ignore
+    [['[X#a]', T('X').id('a')],
+     ['[X_i#a data]', T('X').sub('i').id('a').data('data')],
+     ['[X#a [Y>a t]]', T('X').id('a').add(T('Y').arrow('a').data('t'))],
+     ['[X#a [Y<a]]', T('X').id('a').add(T('Y').arrow('a', 'source'))],
+     ['[X#a [Y<>a]]', T('X').id('a').add(T('Y').arrow('a', 'both'))],
+     ['[X#a [Y ~>a]]', T('X').id('a').add(T('Y').arrow('a', 'target', true))],
+     ['[X>b.Y#b]', T('X').arrow('b').add(T('Y').id('b'))],
+     ['[X#a [Y#b>a ~<>a]]',
+      T('X').id('a').add(T('Y').id('b').arrow('a').arrow('a', 'both', true))],
+     ['[X#a [Y a > b]]', T('X').id('a').add(T('Y').data('a > b'))],
+    ]
+  )("reads names and arrows in '%s'", (str, tree) => {
+    expect(stripSpans(parse(str))).toEqual(tree.build());
+  });
+
+  test('spans arrows', () => {
+    const input = '[X#a [Y ~<>a]]';
+    const span = parse(input).children[0].arrows?.[0].span;
+    expect(span && input.slice(span.start, span.end)).toBe('~<>a');
+  });
+
+  test.each(
+    // prettier-ignore
+    [['[X>a]', "Unknown node name 'a'"],
+     ['[X#a [Y#a]]', "Duplicate node name 'a'"],
+     ['[X#a#b]', 'Node is already named'],
+     ['[X#]', "Missing name after '#'"],
+     ['[X~a]', "Missing '<' or '>' after '~'"],
+     ['[X>]', 'Missing name of arrow target'],
+    ]
+  )("rejects '%s'", (str, reason) => {
+    expect(() => parse(str)).toThrow(reason);
+  });
+
+  test('drops arrows to unknown names when recovering', () => {
+    const { tree, diagnostics } = parse('[X#a [Y>a>b]]', { recover: true });
+
+    expect(tree.children[0].arrows?.map((a) => a.target)).toEqual(['a']);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].snippet).toBe('[X#a [Y>a>b]]\n         ^^');
+  });
+});
+
+describe('parse (classes and attributes)', () => {
+  function T(name?: string) {
+    let tb = new TreeBuilder();
+    if (name) {
+      tb = tb.name(name);
+    }
+    return tb;
+  }
+
+  test.each(
+    // prettier-ignore
+    [['[X{a}]', T('X').classes('a')],
+     ['[X{ a  b }]', T('X').classes('a', 'b')],
+     ['[X{k=v}]', T('X').attr('k', 'v')],
+     ['[X_i{a k=v} data]', T('X').sub('i').classes('a').attr('k', 'v').data('data')],
+     ['[X#n{a}{b}]', T('X').id('n').classes('a', 'b')],
+     ['[X{a}.Y{b}]', T('X').classes('a').add(T('Y').classes('b'))],
+     ['[X a c=d]', T('X').data('a c=d')],
+     ['[X {i a}]', T('X').runs({ text: 'a', italic: true })],
+    ]
+  )("reads classes and attributes in '%s'", (str, tree) => {
+    expect(stripSpans(parse(str))).toEqual(tree.build());
+  });
+
+  test.each(
+    // prettier-ignore
+    [['[X{k=}]', "Missing value for attribute 'k'"],
+     ['[X{1k=v}]', "Invalid attribute name '1k'"],
+     ['[X{start=3}]', "Reserved attribute name 'start'"],
+     ['[X{end=3}]', "Reserved attribute name 'end'"],
+     ['[X{a]', "Unclosed '{' opened at line 1, column 3"],
+     ['[X{a [Y]}]', "Unexpected '['"],
+    ]
+  )("rejects '%s'", (str, reason) => {
+    expect(() => parse(str)).toThrow(reason);
+  });
+
+  test('skips to the closing brace when recovering', () => {
+    const { tree, diagnostics } = parse('[X{a ~ b} data]', { recover: true });
+
+    expect(stripSpans(tree)).toEqual(
+      T('X').classes('a', 'b').data('data').build()
+    );
+    expect(diagnostics).toHaveLength(1);
+  });
+});
+
+describe('parse (formatted data)', () => {
+  function T(name?: string) {
+    let tb = new TreeBuilder();
+    if (name) {
+      tb = tb.name(name);
+    }
+    return tb;
+  }
+
+  test.each(
+    // prettier-ignore
+    [['[N t_i]', T('N').runs({ text: 't' }, { text: 'i', script: 'sub' })],
+     ['[N a^b c]',
+      T('N').runs({ text: 'a' }, { text: 'b', script: 'sup' }, { text: ' c' })],
+     ['[N {i dog}]', T('N').runs({ text: 'dog', italic: true })],
+     ['[N the {b big} dog]',
+      T('N').runs({ text: 'the ' }, { text: 'big', bold: true }, { text: ' dog' })],
+     ['[N {s {sc t}_i}]',
+      T('N').runs({ text: 't', strike: true, smallCaps: true },
+                  { text: 'i', strike: true, script: 'sub' })],
+     ['[N {i a}{i b}]', T('N').runs({ text: 'ab', italic: true })],
+     ['[N {i   a}]', T('N').runs({ text: '  a', italic: true })],
+     ['[N a _ b^]', T('N').data('a _ b^')],
+    ]
+  )("reads formatting in '%s'", (str, tree) => {
+    expect(stripSpans(parse(str))).toEqual(tree.build());
+  });
+
+  test('formats collapsed data', () => {
+    const leaf = parse('[NP* {i the dog}]').children[0].leaf;
+    expect(leaf?.isCollapsed).toBe(true);
+    expect(leaf?.runs).toEqual([{ text: 'the dog', italic: true }]);
+  });
+
+  test.each(
+    // prettier-ignore
+    [['[N {x a}]', "Unknown text style 'x'"],
+     ['[N {}]', "Missing text style after '{'"],
+     ['[N a}]', "Unexpected '}'"],
+     ['[N {i a]', "Unclosed '{' opened at line 1, column 4"],
+    ]
+  )("rejects '%s'", (str, reason) => {
+    expect(() => parse(str)).toThrow(reason);
+  });
+});
+
+describe('parse (escapes and quotes)', () => {
+  function T(name?: string) {
+    let tb = new TreeBuilder();
+    if (name) {
+      tb = tb.name(name);
+    }
+    return tb;
+  }
+
+  test.each(
+    // prettier-ignore
+    [['[C\\[+Q\\]]', T('C[+Q]')],
+     ['["C [+Q]" a]', T('C [+Q]').data('a')],
+     ['[X \\*John left]', T('X').data('*John left')],
+     ['[X a\\/b \\/]', T('X').data('a/b /')],
+     ['[X "  a  b  "]', T('X').data('  a  b  ')],
+     ['[X "{i a}" \\_i]', T('X').data('{i a} _i')],
+     ['[X_"i j" a]', T('X').sub('i j').data('a')],
+    ]
+  )("reads '%s'", (str, tree) => {
+    expect(stripSpans(parse(str))).toEqual(tree.build());
+  });
+
+  test.each(
+    // prettier-ignore
+    [['[X "a]', `Unclosed '"' opened at line 1, column 4`],
+     ['[X a\\', "Missing character after '\\'"],
+    ]
+  )("rejects '%s'", (str, reason) => {
+    expect(() => parse(str)).toThrow(reason);
+  });
+
+  test('reports unclosed quotes when recovering', () => {
+    const { tree, diagnostics } = parse('[X "a b]', { recover: true });
+
+    expect(tree.leaf?.data).toBe('a b]');
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      `Unclosed '"' opened at line 1, column 4 (line 1, column 4)`,
+      "Unclosed '[' opened at line 1, column 1 (line 1, column 9)",
+    ]);
+  });
+});
+
+describe('parse (glosses and translations)', () => {
+  function T(name?: string) {
+    let tb = new TreeBuilder();
+    if (name) {
+      tb = tb.name(name);
+    }
+    return tb;
+  }
+
+  test.each(
+    // prettier-ignore
+    [['[N perro | dog]', T('N').data('perro').gloss('dog')],
+     ['[V comí|eat-PST.1SG | ate ]', T('V').data('comí').gloss('eat-PST.1SG', 'ate ')],
+     ['[N / | null]', T('N').data('∅').gloss('null')],
+     ['[N a | | c]', T('N').data('a').gloss('', 'c')],
+     ['[N a\\ | b]', T('N').data('a ').gloss('b')],
+     ['[X [N a]] | An X.', T('X').add(T('N').data('a')).translation('An X.')],
+    ]
+  )("reads glosses in '%s'", (str, tree) => {
+    expect(stripSpans(parse(str))).toEqual(tree.build());
+  });
+
+  test('reads a single translation', () => {
+    expect(() => parse('[X] | An X | too')).toThrow(
+      'Unexpected text after the root node'
+    );
+  });
+
+  test('formats glosses', () => {
+    const leaf = parse('[V ladr-ó | bark-{sc pst}]').leaf;
+    expect(leaf?.glosses?.[0].runs).toEqual([
+      { text: 'bark-' },
+      { text: 'pst', smallCaps: true },
+    ]);
+  });
+
+  test('spans glosses and translations', () => {
+    const input = '[N perro | dog ] | The dog';
+    const tree = parse(input);
+    const slice = (span?: { start: number; end: number }) =>
+      span && input.slice(span.start, span.end);
+
+    expect(slice(tree.leaf?.glosses?.[0].span)).toBe('dog');
+    expect(slice(tree.translation?.span)).toBe('The dog');
+  });
+});
+
+describe('parse (comments and macros)', () => {
+  function T(name?: string) {
+    let tb = new TreeBuilder();
+    if (name) {
+      tb = tb.name(name);
+    }
+    return tb;
+  }
+  const dp = () => T('DP').add(T('D').data('the'), T('N').data('dog'));
+
+  test.each(
+    // prettier-ignore
+    [['% A tree\n[X [Y a] % first\n [Z b]]', T('X').add(T('Y').data('a'), T('Z').data('b'))],
+     ['[X a\\% b]', T('X').data('a% b')],
+     ['[N 50%]', T('N').data('50%')],
+     ['[N 50% of them]', T('N').data('50% of them')],
+     ['[N 50 % of them]', T('N').data('50 % of them')],
+     ['[N a\n% b\n]', T('N').data('a\n\n')],
+     ['[X [Y a]] % b]', T('X').add(T('Y').data('a'))],
+     ['[X % off]', T('X').data('% off')],
+     ['[X a | % b]', T('X').data('a').gloss('% b')],
+     ['[X [Y a] % b\n]', T('X').add(T('Y').data('a'))],
+     ['@dp = [DP [D the] [N dog]] [S @dp [VP barked]]',
+      T('S').add(dp(), T('VP').data('barked'))],
+     ['@dp = [DP [D the] [N dog]]\n@s = [S @dp @dp]\n[CP @s]',
+      T('CP').add(T('S').add(dp(), dp()))],
+     ['@x=[X][Y@x]', T('Y').add(T('X'))],
+    ]
+  )("reads '%s'", (str, tree) => {
+    expect(stripSpans(parse(str))).toEqual(tree.build());
+  });
+
+  test('copies macros', () => {
+    const tree = parse('@x = [X a] [S @x @x]');
+    expect(stripSpans(tree.children[0])).toEqual(stripSpans(tree.children[1]));
+    expect(tree.children[0]).not.toBe(tree.children[1]);
+  });
+
+  test('spans expansions at their use', () => {
+    const input = '@dp = [DP [D the] [N dog]]\n[S @dp]';
+    const dp = parse(input).children[0];
+    const slice = (span?: { start: number; end: number }) =>
+      span && input.slice(span.start, span.end);
+
+    expect(slice(dp.span)).toBe('@dp');
+    expect(slice(dp.children[1].leaf?.span)).toBe('@dp');
+  });
+
+  test('checks names in expansions', () => {
+    expect(stripSpans(parse('@t = [t>a] [S [NP#a] [VP @t]]'))).toEqual(
+      T('S')
+        .add(T('NP').id('a'), T('VP').add(T('t').arrow('a')))
+        .build()
+    );
+    expect(() => parse('@np = [NP#a] [S @np @np]')).toThrow(
+      "Duplicate node name 'a'"
+    );
+    expect(() => parse('@t = [t>a] [S @t]')).toThrow("Unknown node name 'a'");
+  });
+
+  test.each(
+    // prettier-ignore
+    [['[S @dp]', "Unknown macro '@dp'"],
+     ['@x = [X] [S @y]', "Unknown macro '@y'"],
+     ['@x = [X] @x = [Y] [S]', "Duplicate macro '@x'"],
+     ['@ = [X] [S]', "Missing macro name after '@'"],
+     ['@x [X] [S]', "Missing '=' after macro name"],
+     ['[S @x = [X]]', "Unknown macro '@x'"],
+     ['[S] @x = [X]', 'Unexpected text after the root node'],
+    ]
+  )("rejects '%s'", (str, reason) => {
+    expect(() => parse(str)).toThrow(reason);
+  });
+
+  test('suggests macros once defined', () => {
+    let err: ParseError | undefined;
+    try {
+      parse('@x = [X] [S [Y] b]');
+    } catch (e) {
+      err = e;
+    }
+    expect(err?.expected).toEqual(["'['", "'@'", "']'"]);
+  });
+
+  test('recovers from unknown macros', () => {
+    const { tree, diagnostics } = parse('[S @x [Y]]', { recover: true });
+
+    expect(tree.children.map((c) => c.nodeType?.name)).toEqual(['?', 'Y']);
+    expect(diagnostics.map((d) => d.reason)).toEqual(["Unknown macro '@x'"]);
+  });
+});
+
+describe('parseDocument', () => {
+  const stripLine = (line: TextLine) => {
+    const copy = { ...line };
+    delete copy.span;
+    return copy;
+  };
+  const names = (input: string) =>
+    parseDocument(input).examples.map((ex) => ex.tree.nodeType?.name);
+
+  test('reads every tree', () => {
+    expect(names('[A] [B]\n\n[C]')).toEqual(['A', 'B', 'C']);
+    expect(names('')).toEqual([]);
+    expect(names('% Nothing yet\n')).toEqual([]);
+  });
+
+  test('reads numbers and captions', () => {
+    const doc = parseDocument(
+      '(1) A {i simple} clause\n[S [NP I] [VP ran]]\n' +
+        '(2a) [S] | A translation.\n' +
+        'Unnumbered [S]\n' +
+        '[S]'
+    );
+
+    expect(
+      doc.examples.map((ex) => [ex.number, ex.caption && stripLine(ex.caption)])
+    ).toEqual([
+      [
+        '1',
+        {
+          data: 'A simple clause',
+          runs: [
+            { text: 'A ' },
+            { text: 'simple', italic: true },
+            { text: ' clause' },
+          ],
+        },
+      ],
+      ['2a', undefined],
+      [undefined, { data: 'Unnumbered' }],
+      [undefined, undefined],
+    ]);
+    expect(doc.examples[1].tree.translation?.data).toBe('A translation.');
+  });
+
+  test('spans examples', () => {
+    const input = '[A]\n(2) B [B [C c]] | b\n';
+    const slice = (span?: { start: number; end: number }) =>
+      span && input.slice(span.start, span.end);
+    const [a, b] = parseDocument(input).examples;
+
+    expect(slice(a.span)).toBe('[A]');
+    expect(slice(b.span)).toBe('(2) B [B [C c]] | b');
+    expect(slice(b.caption?.span)).toBe('B');
+  });
+
+  test('shares macros between trees', () => {
+    const doc = parseDocument(
+      '@dp = [DP dog]\n[S @dp]\n@vp = [VP @dp]\n[S @vp]'
+    );
+    const dp = () => new TreeBuilder().name('DP').data('dog');
+
+    expect(doc.examples.map((ex) => stripSpans(ex.tree))).toEqual([
+      new TreeBuilder().name('S').add(dp()).build(),
+      new TreeBuilder()
+        .name('S')
+        .add(new TreeBuilder().name('VP').add(dp()))
+        .build(),
+    ]);
+  });
+
+  test('keeps names to their own tree', () => {
+    expect(names('[X#a [Y>a]] [X#a [Y>a]]')).toEqual(['X', 'X']);
+    expect(() => parseDocument('[X#a] [Y>a]')).toThrow("Unknown node name 'a'");
+  });
+
+  test('collects diagnostics from every tree', () => {
+    const two = parseDocument('[A}] [B @x]', { recover: true });
+    expect(two.document.examples).toHaveLength(2);
+    expect(two.diagnostics.map((d) => d.reason)).toEqual([
+      "Unexpected '}'",
+      "Unknown macro '@x'",
+    ]);
+  });
+});
+
+describe('parse (feature structures)', () => {
+  const features = (str: string) =>
+    stripSpans(parse(str)).nodeType?.features?.features;
+
+  test.each(
+    // prettier-ignore
+    [['[[CAT noun] dog]', [{ name: 'CAT', value: 'noun' }]],
+     ['[[PHON "the dog", CASE nom or acc]]', [
+       { name: 'PHON', value: 'the dog' },
+       { name: 'CASE', value: 'nom or acc' },
+     ]],
+     ['[[AGR #1 [NUM sg, PER 3], SUBJ [AGR #1]]]', [
+       { name: 'AGR', tag: '1', value: { features: [
+         { name: 'NUM', value: 'sg' },
+         { name: 'PER', value: '3' },
+       ] } },
+       { name: 'SUBJ', value: { features: [{ name: 'AGR', tag: '1' }] } },
+     ]],
+     ['[[ ]]', []],
+     ['[[CAT noun,] [N dog]]', [{ name: 'CAT', value: 'noun' }]],
+     ['[[CAT noun, NUM sg] [N dog]]', [
+       { name: 'CAT', value: 'noun' },
+       { name: 'NUM', value: 'sg' },
+     ]],
+    ]
+  )("reads '%s'", (str, expected) => {
+    expect(features(str)).toEqual(expected);
+  });
+
+  test('labels nodes with no name', () => {
+    const tree = parse('[S [[HEAD verb].V runs]]');
+
+    expect(tree.children[0].nodeType?.name).toBe('');
+    expect(tree.children[0].children[0].nodeType?.name).toBe('V');
+    expect(tree.children[0].children[0].leaf?.data).toBe('runs');
+  });
+
+  test('keeps commas in leaf data', () => {
+    expect(parse('[X a, b]').leaf?.data).toBe('a, b');
+  });
+
+  test('spans matrices', () => {
+    const input = '[[CAT noun, AGR [NUM sg]] dog]';
+    const nt = parse(input).nodeType;
+    const inner = nt?.features?.features[1].value;
+
+    expect(nt?.span).toEqual({ start: 1, end: 25 });
+    expect(nt?.features?.span).toEqual({ start: 1, end: 25 });
+    expect(typeof inner === 'object' && inner.span).toEqual({
+      start: 16,
+      end: 24,
+    });
+  });
+
+  test.each(
+    // prettier-ignore
+    [['[[CAT]]', "Missing value for feature 'CAT'"],
+     ['[[#1 noun]]', 'Missing feature name'],
+     ['[[AGR #]]', "Missing tag after '#'"],
+     ['[[CAT noun AGR [NUM sg]]]', "Unexpected '['"],
+     ['[[CAT noun', "Unclosed '[' opened at line 1, column 2"],
+     ['[[NP a] [VP b]]', "Feature structure '[NP a]' has child nodes"],
+     ['[[CAT noun,,]]', 'Missing feature name'],
+    ]
+  )("rejects '%s'", (str, reason) => {
+    expect(() => parse(str)).toThrow(reason);
+  });
+});
+
+describe('parse (multidominance)', () => {
+  test('shares referenced nodes', () => {
+    const tree = parse("[CP [NP#wh what] [C' [C did] [VP [V see] [#wh]]]]");
+    const np = tree.children[0];
+    const vp = tree.children[1].children[1];
+
+    expect(vp.children[1]).toBe(np);
+    expect(vp.children.map((c) => c.nodeType?.name)).toEqual(['V', 'NP']);
+  });
+
+  test('shares nodes referred to before they are named', () => {
+    const tree = parse('[S [X [#y]] [Y#y a]]');
+    expect(tree.children[0].children[0]).toBe(tree.children[1]);
+  });
+
+  test('keeps nodes shared when stripping spans', () => {
+    const tree = stripSpans(parse('[S [NP#o it] [VP [V saw] [#o]]]'));
+    expect(tree.children[1].children[1]).toBe(tree.children[0]);
+  });
+
+  test('keeps nodes shared in macros', () => {
+    const tree = parse('@vp = [VP [NP#o it] [V [#o]]] [S @vp]');
+    const vp = tree.children[0];
+    expect(vp.children[1].children[0]).toBe(vp.children[0]);
+  });
+
+  test.each(
+    // prettier-ignore
+    [['[S [#a]]', "Unknown node name 'a'"],
+     ['[S [#]]', "Missing name after '#'"],
+     ['[S#s [X [#s]]]', "Node 's' can not dominate itself"],
+     ['[S [A#a [#b]] [B#b [#a]]]', "Node 'a' can not dominate itself"],
+     ['[S [#a x] [X#a]]', "Unexpected 'x'"],
+    ]
+  )("rejects '%s'", (str, reason) => {
+    expect(() => parse(str)).toThrow(reason);
+  });
+
+  test('drops bad references when recovering', () => {
+    const { tree, diagnostics } = parse('[S [X#x [#x]] [#y] [Y]]', {
+      recover: true,
+    });
+
+    expect(tree.children.map((c) => c.nodeType?.name)).toEqual(['X', 'Y']);
+    expect(tree.children[0].children).toEqual([]);
+    expect(diagnostics.map((d) => d.reason)).toEqual([
+      "Node 'x' can not dominate itself",
+      "Unknown node name 'y'",
+    ]);
   });
 });
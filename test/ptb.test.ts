@@ -0,0 +1,81 @@
+import { parsePTB } from '../src/ptb';
+import { parse } from '../src/parser';
+import { ParseError } from '../src/error';
+import { stripSpans } from '../src/tree';
+
+describe('parsePTB', () => {
+  test.each(
+    // prettier-ignore
+    [['(S (NP (DT the) (NN dog)) (VP (VBD barked)))',
+      '[S [NP [DT the] [NN dog]] [VP [VBD barked]]]'],
+     ['( (S (NP (NNP Kim)) (VP (VBZ sleeps))) )',
+      '[S [NP [NNP Kim]] [VP [VBZ sleeps]]]'],
+     ['(NP-SBJ-1 (PRP it))', '[NP_1^SBJ [PRP it]]'],
+     ['(NP-SBJ-TMP=2 (PRP it))', '[NP_2^SBJ-TMP [PRP it]]'],
+     ['(S (NP-SBJ (-NONE- *-1)) (VP (VB go)))',
+      '[S [NP_1^SBJ /] [VP [VB go]]]'],
+     ['(SBAR (WHNP-1 (WP what)) (S (NP (-NONE- *T*-1))))',
+      '[SBAR [WHNP_1 [WP what]] [S [NP_1 /]]]'],
+     ['(PRN (-LRB- -LRB-) (NN aside) (-RRB- -RRB-))',
+      '[PRN [-LRB- (] [NN aside] [-RRB- )]]'],
+     ['(X)', '[X]'],
+    ]
+  )("reads '%s'", (input, markup) => {
+    const trees = parsePTB(input).map(stripSpans);
+    const expected = stripSpans(parse(markup));
+
+    expect(trees).toEqual([expected]);
+  });
+
+  test('keeps empty elements among siblings as ∅ leaves', () => {
+    const np = stripSpans(parsePTB('(NP (NN x) (-NONE- *U*))')[0]);
+
+    expect(np.children[1]).toEqual({
+      children: [],
+      leaf: { data: '∅', isCollapsed: false },
+    });
+  });
+
+  test('reads several trees', () => {
+    const trees = parsePTB('(S (NP a))\n\n(S (NP b))\n(S (NP c))');
+
+    expect(trees).toHaveLength(3);
+    expect(trees.map((t) => t.children[0].leaf?.data)).toEqual(['a', 'b', 'c']);
+  });
+
+  test('reads nothing from empty input', () => {
+    expect(parsePTB('  \n')).toEqual([]);
+  });
+
+  test('records spans', () => {
+    const input = '(S (NP-1 (DT the)))';
+    const np = parsePTB(input)[0].children[0];
+    const text = (s?: { start: number; end: number }) =>
+      s && input.slice(s.start, s.end);
+
+    expect(text(np.span)).toBe('(NP-1 (DT the))');
+    expect(text(np.nodeType?.span)).toBe('NP-1');
+    expect(text(np.children[0].leaf?.span)).toBe('the');
+  });
+
+  test.each(
+    // prettier-ignore
+    [['(S (NP a)', "Unclosed '(' opened at line 1, column 1", 9],
+     ['(S (NP a)))', "Unexpected ')'", 10],
+     ['(S (NP a b))', "Unexpected 'b'", 9],
+     ['S (NP a)', "Unexpected 'S'", 0],
+     ['(S\n  (NP a) b)', "Unexpected 'b' (line 2, column 10)", 12],
+    ]
+  )("rejects '%s'", (input, message, offset) => {
+    let err: ParseError | undefined;
+    try {
+      parsePTB(input);
+    } catch (e) {
+      err = e;
+    }
+
+    expect(err).toBeInstanceOf(ParseError);
+    expect(err?.message).toMatch(message);
+    expect(err?.offset).toBe(offset);
+  });
+});
@@ -0,0 +1,211 @@
+import { parse } from '../src/parser';
+import { ParseError } from '../src/error';
+import { Tree } from '../src/tree';
+import {
+  descendants,
+  pathsTo,
+  parentOf,
+  parentsOf,
+  ancestors,
+  dominates,
+  immediatelyDominates,
+  sisters,
+  lowestCommonAncestor,
+  cCommands,
+  category,
+  maximalProjection,
+  query,
+  matches,
+} from '../src/query';
+
+/**
+ * Labels of `nodes`, or their leaf data when they have no node type.
+ */
+function labels(nodes: (Tree | undefined)[]) {
+  return nodes.map((n) => n?.nodeType?.name ?? n?.leaf?.data);
+}
+
+describe('traversal', () => {
+  const tree = parse('[S [NP [D the] [N dog]] [VP [V barked]]]');
+  const [s, np, d, n, vp, v] = descendants(tree);
+
+  test('lists nodes in pre-order', () => {
+    expect(labels(descendants(tree))).toEqual(['S', 'NP', 'D', 'N', 'VP', 'V']);
+  });
+
+  test('finds parents and ancestors', () => {
+    expect(parentOf(tree, n)).toBe(np);
+    expect(parentOf(tree, s)).toBeUndefined();
+    expect(ancestors(tree, d)).toEqual([np, s]);
+    expect(ancestors(tree, parse('[X]'))).toEqual([]);
+  });
+
+  test('relates nodes by dominance', () => {
+    expect(dominates(s, v)).toBe(true);
+    expect(dominates(np, np)).toBe(false);
+    expect(dominates(np, vp)).toBe(false);
+    expect(immediatelyDominates(vp, v)).toBe(true);
+    expect(immediatelyDominates(s, v)).toBe(false);
+  });
+
+  test('finds sisters', () => {
+    expect(sisters(tree, np, vp)).toBe(true);
+    expect(sisters(tree, d, n)).toBe(true);
+    expect(sisters(tree, d, d)).toBe(false);
+    expect(sisters(tree, d, v)).toBe(false);
+  });
+
+  test('finds the lowest common ancestor', () => {
+    expect(lowestCommonAncestor(tree, d, n)).toBe(np);
+    expect(lowestCommonAncestor(tree, d, v)).toBe(s);
+    expect(lowestCommonAncestor(tree, np, n)).toBe(np);
+  });
+});
+
+describe('traversal (multidominance)', () => {
+  const tree = parse('[S [NP#o it] [VP [V saw] [#o]]]');
+  const [s, np, vp] = descendants(tree);
+
+  test('lists shared nodes once', () => {
+    expect(labels(descendants(tree))).toEqual(['S', 'NP', 'VP', 'V']);
+  });
+
+  test('finds every parent', () => {
+    expect(parentsOf(tree, np)).toEqual([s, vp]);
+    expect(parentsOf(tree, vp)).toEqual([s]);
+    expect(parentsOf(tree, s)).toEqual([]);
+    expect(parentOf(tree, np)).toBe(s);
+    expect(dominates(vp, np)).toBe(true);
+  });
+
+  describe('across the board', () => {
+    const atb = parse(
+      '[TP [TP [NP John] [VP [V bought] [NP#o books]]] [Conj and] ' +
+        '[TP [NP Mary] [VP [V sold] [#o]]]]'
+    );
+    const [tp, tp1, , vp1, , books, , tp2, , vp2, sold] = descendants(atb);
+
+    test('finds every path', () => {
+      expect(pathsTo(atb, books)).toEqual([
+        [tp, tp1, vp1, books],
+        [tp, tp2, vp2, books],
+      ]);
+      expect(ancestors(atb, books)).toEqual([vp1, tp1, tp, vp2, tp2]);
+    });
+
+    test('relates shared nodes from each position', () => {
+      expect(sisters(atb, books, sold)).toBe(true);
+      expect(cCommands(atb, books, sold)).toBe(true);
+      expect(matches(atb, books, 'TP > TP > VP > NP')).toBe(true);
+      expect(matches(atb, books, 'TP > NP')).toBe(false);
+    });
+
+    test('queries shared nodes once', () => {
+      expect(query(atb, 'NP').map((n) => n.leaf?.data)).toEqual([
+        'John',
+        'books',
+        'Mary',
+      ]);
+      expect(query(atb, 'VP > NP#o')).toEqual([books]);
+      expect(query(atb, 'V ~ NP')).toEqual([books]);
+    });
+  });
+});
+
+describe('cCommands', () => {
+  const tree = parse('[S [NP John] [VP [V saw] [NP himself]]]');
+  const [, subject, vp, v, object] = descendants(tree);
+
+  // prettier-ignore
+  test.each([
+    ['subject', 'object', subject, object, true],
+    ['object', 'subject', object, subject, false],
+    ['subject', 'verb', subject, v, true],
+    ['verb', 'object', v, object, true],
+    ['subject', 'VP', subject, vp, true],
+    ['VP', 'verb', vp, v, false],
+    ['subject', 'itself', subject, subject, false],
+  ])('%s c-commands %s: %#', (_a, _b, a, b, expected) => {
+    expect(cCommands(tree, a as Tree, b as Tree)).toBe(expected);
+  });
+
+  test('skips non-branching nodes', () => {
+    const t = parse('[S [NP [N John]] [VP left]]');
+    const [, , n, vp] = descendants(t);
+    expect(cCommands(t, n, vp)).toBe(true);
+  });
+});
+
+describe('maximalProjection', () => {
+  // prettier-ignore
+  test.each([
+    ['N', 'N'],
+    ['NP', 'N'],
+    ["N'", 'N'],
+    ['N-bar', 'N'],
+    ['N0', 'N'],
+    ['PP', 'P'],
+    ['TP', 'T'],
+    ['S', 'S'],
+  ])('category of %s is %s', (name, expected) => {
+    expect(category(parse(`[${name}]`))).toBe(expected);
+  });
+
+  test('climbs projections of the same category', () => {
+    const tree = parse("[VP [V eat] [NP [N' [Adj big] [N' [N apples]]]]]");
+    const nodes = descendants(tree);
+    const n = nodes.filter((x) => x.nodeType?.name === 'N')[0];
+
+    expect(maximalProjection(tree, n)).toBe(nodes[2]);
+    expect(maximalProjection(tree, nodes[1])).toBe(tree);
+    expect(maximalProjection(tree, nodes[4])).toBe(nodes[4]);
+  });
+});
+
+describe('query', () => {
+  const tree = parse(
+    '[CP [NP_i^wh#w what] [C did] [TP [NP{pro} you] [VP [V see] [NP_i t]]]]'
+  );
+  const found = (selector: string) => labels(query(tree, selector));
+
+  // prettier-ignore
+  test.each([
+    ['NP',             ['NP', 'NP', 'NP']],
+    ['*',              ['CP', 'NP', 'C', 'TP', 'NP', 'VP', 'V', 'NP']],
+    ['NP_i',           ['NP', 'NP']],
+    ['NP^wh',          ['NP']],
+    ['*#w',            ['NP']],
+    ['NP.pro',         ['NP']],
+    ['*=see',          ['V']],
+    ['NP="t"',         ['NP']],
+    ['TP NP',          ['NP', 'NP']],
+    ['TP > NP',        ['NP']],
+    ['VP>NP',          ['NP']],
+    ['C ~ TP',         ['TP']],
+    ['C ~ *',          ['NP', 'TP']],
+    ['CP > * ~ C',     ['C']],
+    ['  V  ',          ['V']],
+  ])('%s', (selector, expected) => {
+    expect(found(selector)).toEqual(expected);
+  });
+
+  test('checks a single node', () => {
+    const [, wh] = descendants(tree);
+    expect(matches(tree, wh, 'CP > NP_i')).toBe(true);
+    expect(matches(tree, wh, 'TP NP')).toBe(false);
+  });
+
+  // prettier-ignore
+  test.each([
+    ['',          'Unexpected end of selector'],
+    ['> NP',      "Unexpected '>'"],
+    ['#w',        "Unexpected '#'"],
+    ['NP_',       "Missing word after '_'"],
+    ['NP=',       "Missing word after '='"],
+    ['NP="dog',   `Unclosed '"' opened at line 1, column 4`],
+    ['NP"dog"',   "Unexpected 'dog'"],
+  ])('rejects %p', (selector, message) => {
+    expect(() => query(tree, selector)).toThrow(ParseError);
+    expect(() => query(tree, selector)).toThrow(message);
+  });
+});
@@ -0,0 +1,479 @@
+import { parse, parseDocument } from '../src/parser';
+import { render, rerender, highlight, renderDiff } from '../src/render';
+import { query } from '../src/query';
+import { select } from 'd3-selection';
+import { makeConfig } from '../src/config';
+import { mockBBox, wait } from './helpers';
+
+mockBBox();
+
+describe('rerender', () => {
+  function setup(markup: string) {
+    document.body.innerHTML = '<div></div>';
+    const div = select<HTMLDivElement, string>('div');
+    render(parse(markup), div);
+    return div.select('svg').node() as SVGSVGElement;
+  }
+  const nodes = (svg: SVGSVGElement) =>
+    Array.prototype.slice.call(
+      svg.querySelectorAll('g.node:not(.exiting)')
+    ) as SVGGElement[];
+
+  test('updates the SVG in place', () => {
+    const svg = setup('[NP [D the] [N dog]]');
+    rerender(parse('[NP [D a] [N dog]]'), svg);
+
+    expect(document.querySelectorAll('svg')).toHaveLength(1);
+    expect(nodes(svg)).toHaveLength(3);
+    expect(svg.querySelector('.nodeData')?.textContent).toBe('a');
+  });
+
+  test('keeps the elements of unchanged nodes', () => {
+    const svg = setup('[NP [D the] [N dog]]');
+    const [np, , n] = nodes(svg);
+    const dog = n.querySelector('.nodeData');
+    rerender(parse('[NP [D the] [Adj big] [N dog]]'), svg);
+
+    const after = nodes(svg);
+    expect(after).toHaveLength(4);
+    expect(after[0]).toBe(np);
+    expect(after).toContain(n);
+    expect(n.querySelector('.nodeData')).toBe(dog);
+  });
+
+  test('lays out an unchanged tree the same', async () => {
+    const svg = setup('[NP [D the] [N dog | a dog]]');
+    const viewBox = svg.getAttribute('viewBox');
+    rerender(parse('[NP [D the] [N dog | a dog]]'), svg, {
+      transition: { duration: 0 },
+    });
+
+    await wait(50);
+    expect(svg.getAttribute('viewBox')).toBe(viewBox);
+  });
+
+  test('updates source spans', () => {
+    const svg = setup('[NP [N dog]]');
+    rerender(parse('[NP  [N dog]]'), svg);
+
+    const n = nodes(svg)[1];
+    expect(n.getAttribute('data-start')).toBe('5');
+    expect(n.querySelector('.nodeData')?.getAttribute('data-start')).toBe('8');
+  });
+
+  test('removes nodes, links and arrows which no longer exist', async () => {
+    const svg = setup('[X [Y#a a] [Z <a b]]');
+    rerender(parse('[X [Y a]]'), svg, { transition: { duration: 0 } });
+
+    expect(nodes(svg)).toHaveLength(2);
+    expect(svg.querySelectorAll('g.node.exiting')).toHaveLength(1);
+
+    await wait(50);
+    expect(svg.querySelectorAll('g.node')).toHaveLength(2);
+    expect(svg.querySelectorAll('.link')).toHaveLength(1);
+    expect(svg.querySelectorAll('path.arrow')).toHaveLength(0);
+  });
+
+  test('swaps links to collapsed children', async () => {
+    const svg = setup('[NP [N dog]]');
+    rerender(parse('[NP* the dog]'), svg, { transition: { duration: 0 } });
+
+    await wait(50);
+    expect(svg.querySelectorAll('line.link')).toHaveLength(0);
+    expect(svg.querySelectorAll('polygon.link')).toHaveLength(1);
+  });
+
+  test('adds and removes the translation', () => {
+    const svg = setup('[S [N perro]]');
+    rerender(parse('[S [N perro]] | dog'), svg);
+    expect(svg.querySelector('text.translation')?.textContent).toBe('dog');
+
+    rerender(parse('[S [N perro]]'), svg);
+    expect(svg.querySelector('text.translation')?.classList).toContain(
+      'exiting'
+    );
+  });
+});
+
+describe('collapsible nodes', () => {
+  function setup(markup: string) {
+    document.body.innerHTML = '<div></div>';
+    const div = select<HTMLDivElement, string>('div');
+    render(parse(markup), div, {
+      interaction: { collapse: true },
+      transition: { duration: 0 },
+    });
+    return div.select('svg').node() as SVGSVGElement;
+  }
+  const shown = (svg: SVGSVGElement, selector: string) =>
+    Array.prototype.slice.call(
+      svg.querySelectorAll(selector + ':not(.exiting)')
+    ) as SVGElement[];
+  const click = (el: Element) =>
+    el.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+  test('marks nodes which may be folded', () => {
+    const svg = setup('[S [NP* the dog] [VP [V barked]]]');
+    const labels = shown(svg, 'g.collapsible').map(
+      (g) => g.querySelector('.nodeType')?.textContent
+    );
+
+    expect(labels).toEqual(['S', 'VP']);
+    expect(shown(svg, 'g.collapsible')[0].getAttribute('tabindex')).toBe('0');
+  });
+
+  test('folds and unfolds a node on click', () => {
+    const svg = setup('[S [NP [D the] [N dog]] [VP barked]]');
+    const np = shown(svg, 'g.node')[1];
+    click(np);
+
+    expect(np.classList).toContain('folded');
+    expect(shown(svg, 'g.node')).toHaveLength(4);
+    expect(shown(svg, 'polygon.link')).toHaveLength(1);
+    expect(shown(svg, 'g.node')[3].textContent).toBe('the dog');
+
+    click(shown(svg, 'g.node')[3]);
+    expect(np.classList).not.toContain('folded');
+    expect(shown(svg, 'g.node')).toHaveLength(5);
+    expect(shown(svg, 'polygon.link')).toHaveLength(0);
+  });
+
+  test('folds a focused node with Enter', () => {
+    const svg = setup('[S [NP [D the] [N dog]] [VP barked]]');
+    const np = shown(svg, 'g.node')[1];
+    np.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'Enter', bubbles: true })
+    );
+
+    expect(np.classList).toContain('folded');
+  });
+
+  test('dispatches events with the folded node', () => {
+    const tree = parse('[S [NP [D the] [N dog]] [VP barked]]');
+    document.body.innerHTML = '<div></div>';
+    const div = select<HTMLDivElement, string>('div');
+    render(tree, div, { interaction: { collapse: true } });
+    const svg = div.select('svg').node() as SVGSVGElement;
+    const events: [string, unknown][] = [];
+    ['collapse', 'expand'].forEach((type) => {
+      svg.addEventListener(type, (e) => {
+        events.push([type, (e as CustomEvent).detail.node]);
+      });
+    });
+
+    click(shown(svg, 'g.node')[1]);
+    click(shown(svg, 'g.node')[1]);
+    expect(events).toEqual([
+      ['collapse', tree.children[0]],
+      ['expand', tree.children[0]],
+    ]);
+  });
+
+  test('keeps folds when re-rendered', () => {
+    const svg = setup('[S [NP [D the] [N dog]] [VP barked]]');
+    click(shown(svg, 'g.node')[1]);
+    rerender(parse('[S [NP [D the] [N cat]] [VP barked]]'), svg, {
+      interaction: { collapse: true },
+    });
+
+    expect(shown(svg, 'g.folded')).toHaveLength(1);
+    expect(shown(svg, 'g.node')[3].textContent).toBe('the cat');
+  });
+});
+
+describe('highlight', () => {
+  test('marks the nodes of a query', () => {
+    const tree = parse('[S [NP [D the] [N dog]] [VP [V saw] [NP cats]]]');
+    document.body.innerHTML = '<div></div>';
+    const div = select<HTMLDivElement, string>('div');
+    render(tree, div);
+    const svg = div.select('svg').node() as SVGSVGElement;
+
+    highlight(svg, query(tree, 'NP'));
+    const marked = () =>
+      Array.prototype.slice
+        .call(svg.querySelectorAll('g.highlighted .nodeType'))
+        .map((t: Element) => t.textContent);
+    expect(marked()).toEqual(['NP', 'NP']);
+
+    highlight(svg, query(tree, 'V'));
+    expect(marked()).toEqual(['V']);
+  });
+});
+
+describe('renderDiff', () => {
+  const a = parse("[NP [D the] [N' [AP big] [N dog]]]");
+  const b = parse('[NP [D a] [N dog]]');
+  function setup() {
+    document.body.innerHTML = '<div></div>';
+    return select<HTMLDivElement, string>('div');
+  }
+  const marked = (root: Element, className: string) =>
+    Array.prototype.slice
+      .call(root.querySelectorAll(`g.${className}`))
+      .map((g: Element) => g.getAttribute('aria-label'));
+
+  test('overlays the differences on one tree', () => {
+    const diff = renderDiff(a, b, setup());
+
+    expect(diff.changes).toHaveLength(3);
+    expect(document.querySelectorAll('svg')).toHaveLength(1);
+    expect(marked(document.body, 'diff-deleted')).toEqual(["N'", 'AP, big']);
+    expect(marked(document.body, 'diff-relabeled')).toEqual(['D, a']);
+    expect(
+      document.querySelector('g.diff-relabeled')?.getAttribute('data-diff-from')
+    ).toBe('D the');
+  });
+
+  test('links aligned nodes side by side', () => {
+    renderDiff(a, b, setup(), {}, 'side-by-side');
+    const [left, right] = Array.prototype.slice.call(
+      document.querySelectorAll('div.diff > div')
+    ) as Element[];
+
+    expect(document.querySelectorAll('svg')).toHaveLength(2);
+    expect(marked(left, 'diff-deleted')).toEqual(["N'", 'AP, big']);
+    expect(marked(right, 'diff-relabeled')).toEqual(['D, a']);
+
+    const dog = left.querySelectorAll('g.node')[4];
+    dog.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }));
+    expect(marked(left, 'diff-linked')).toEqual(['N, dog']);
+    expect(marked(right, 'diff-linked')).toEqual(['N, dog']);
+
+    document
+      .querySelector('div.diff')
+      ?.dispatchEvent(new MouseEvent('mouseleave'));
+    expect(document.querySelectorAll('g.diff-linked')).toHaveLength(0);
+  });
+});
+
+describe('examples', () => {
+  test('renders a document as numbered examples', () => {
+    document.body.innerHTML = '<div></div>';
+    const doc = parseDocument(
+      '[S [NP I] [VP ran]]\n(7) A {i small} tree [X]\n[Y] | Why?'
+    );
+    const hierarchies = render(doc, select<HTMLDivElement, string>('div'));
+    const figures = document.querySelectorAll('.examples > figure.example');
+    const text = (selector: string) =>
+      Array.prototype.slice
+        .call(document.querySelectorAll(selector))
+        .map((e: Element) => e.textContent);
+
+    expect(hierarchies.map((h) => h.data)).toEqual(
+      doc.examples.map((ex) => ex.tree)
+    );
+    expect(figures).toHaveLength(3);
+    expect(figures[0].querySelector('svg')).not.toBeNull();
+    expect(text('.example-number')).toEqual(['(1)', '(7)', '(3)']);
+    expect(text('.example-caption')).toEqual(['A small tree']);
+    expect(
+      figures[1].querySelector('.example-caption span')?.getAttribute('style')
+    ).toBeNull();
+    expect(
+      (figures[1].querySelectorAll('.example-caption span')[1] as HTMLElement)
+        .style.fontStyle
+    ).toBe('italic');
+  });
+});
+
+describe('accessibility', () => {
+  function setup(markup: string, options = {}) {
+    document.body.innerHTML = '<div></div>';
+    const div = select<HTMLDivElement, string>('div');
+    render(parse(markup), div, options);
+    return div.select('svg').node() as SVGSVGElement;
+  }
+  const items = (svg: SVGSVGElement) =>
+    Array.prototype.slice.call(
+      svg.querySelectorAll('[role="treeitem"]:not(.exiting)')
+    ) as SVGGElement[];
+  const press = (el: Element, key: string) =>
+    el.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+  const label = (el: Element | null) => el?.getAttribute('aria-label');
+  const click = (el: Element) =>
+    el.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+  test('describes the tree', () => {
+    const svg = setup('[S [NP [N perro]] [VP ladró]] | The dog barked.');
+    const titleId = svg.getAttribute('aria-labelledby') as string;
+    const descId = svg.getAttribute('aria-describedby') as string;
+
+    expect(svg.getElementById(titleId).textContent).toBe(
+      'Syntax tree: perro ladró'
+    );
+    expect(svg.getElementById(descId).textContent).toBe(
+      '[S [NP [N perro]] [VP ladró]]\nThe dog barked.'
+    );
+    expect(svg.querySelector('[role="tree"]')?.classList).toContain('nodes');
+    expect(svg.querySelector('g.links')?.getAttribute('aria-hidden')).toBe(
+      'true'
+    );
+  });
+
+  test('exposes each node as a tree item', () => {
+    const svg = setup('[S [NP_i [N perro]] [VP ladró]]');
+    const attrs = items(svg).map((g) =>
+      [
+        'aria-level',
+        'aria-posinset',
+        'aria-setsize',
+        'aria-expanded',
+      ].map((a) => g.getAttribute(a))
+    );
+
+    expect(items(svg).map(label)).toEqual([
+      'S',
+      'NP_i',
+      'VP, ladró',
+      'N, perro',
+    ]);
+    expect(attrs).toEqual([
+      ['1', '1', '1', 'true'],
+      ['2', '1', '2', 'true'],
+      ['2', '2', '2', null],
+      ['3', '1', '1', null],
+    ]);
+  });
+
+  test('makes one node at a time reachable by Tab', () => {
+    const svg = setup('[S [NP I] [VP ran]]');
+    expect(items(svg).map((g) => g.getAttribute('tabindex'))).toEqual([
+      '0',
+      '-1',
+      '-1',
+    ]);
+  });
+
+  // prettier-ignore
+  test.each([
+    ['top-down',   'ArrowDown',  'ArrowRight', 'ArrowUp'],
+    ['left-right', 'ArrowRight', 'ArrowDown',  'ArrowLeft'],
+  ])('moves between nodes with the arrow keys, %s', (orientation, down, next, up) => {
+    const svg = setup('[S [NP [D the] [N dog]] [VP ran]]', {
+      layout: { orientation },
+    });
+    const focused = () => label(document.activeElement);
+    const [s] = items(svg);
+
+    press(s, down);
+    expect(focused()).toBe('NP');
+    press(document.activeElement as Element, next);
+    expect(focused()).toBe('VP, ran');
+    press(document.activeElement as Element, next);
+    expect(focused()).toBe('VP, ran');
+    press(document.activeElement as Element, up);
+    expect(focused()).toBe('S');
+    expect(
+      items(svg).filter((g) => g.getAttribute('tabindex') === '0')
+    ).toEqual([s]);
+  });
+
+  test('goes to the root with Home', () => {
+    const svg = setup('[S [NP [D the] [N dog]] [VP ran]]');
+    press(items(svg)[4], 'Home');
+    expect(document.activeElement).toBe(items(svg)[0]);
+  });
+
+  test('keeps focus on the nearest node still drawn', () => {
+    const svg = setup('[S [NP [D the] [N dog]] [VP ran]]', {
+      interaction: { collapse: true },
+      transition: { duration: 0 },
+    });
+    items(svg)[4].focus();
+    expect(items(svg)[4].getAttribute('tabindex')).toBe('0');
+
+    click(items(svg)[1]);
+    expect(items(svg)[1].getAttribute('aria-expanded')).toBe('false');
+    expect(items(svg)[1].getAttribute('tabindex')).toBe('0');
+  });
+});
+
+describe('multidominance', () => {
+  const markup = "[CP [NP#wh what] [C' [C did] [VP [V see] [#wh]]]]";
+  function setup() {
+    document.body.innerHTML = '<div></div>';
+    const div = select<HTMLDivElement, string>('div');
+    render(parse(markup), div, {
+      interaction: { collapse: true },
+      transition: { duration: 0 },
+    });
+    return div.select('svg').node() as SVGSVGElement;
+  }
+  const shown = (svg: SVGSVGElement, selector: string) =>
+    Array.prototype.slice.call(
+      svg.querySelectorAll(selector + ':not(.exiting)')
+    ) as SVGElement[];
+
+  test('draws shared nodes once, with a link from each parent', () => {
+    const svg = setup();
+
+    expect(shown(svg, 'g.node')).toHaveLength(6);
+    expect(shown(svg, 'line.link')).toHaveLength(5);
+    expect(shown(svg, 'path.link.shared')).toHaveLength(1);
+    expect(shown(svg, 'path.link.shared')[0].getAttribute('d')).toMatch(
+      /^M 0 /
+    );
+  });
+
+  test('moves shared nodes to their other parent when folded away', () => {
+    const svg = setup();
+    const vp = shown(svg, 'g.node').filter(
+      (g) => g.querySelector('.nodeType')?.textContent === 'VP'
+    )[0];
+    vp.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+    expect(shown(svg, 'path.link.shared')).toHaveLength(0);
+    expect(shown(svg, 'g.node')).toHaveLength(6);
+    expect(shown(svg, 'polygon.link')).toHaveLength(1);
+  });
+});
+
+describe('feature structures', () => {
+  test('draws matrices and sizes their nodes', () => {
+    document.body.innerHTML = '<div></div>';
+    const div = select<HTMLDivElement, string>('div');
+    const root = render(
+      parse('[S [[CAT noun, AGR #1 [NUM sg]] dog] [V ran]]'),
+      div
+    );
+    const avm = document.querySelector('g.node g.avm') as SVGGElement;
+    const data = avm.parentNode?.querySelector('text.nodeData') as Element;
+    const [np, v] = root.children ?? [];
+
+    expect(avm.querySelectorAll('path.avm-bracket')).toHaveLength(4);
+    expect(avm.querySelectorAll('rect.avm-box')).toHaveLength(1);
+    expect(avm.getAttribute('transform')).toBe(
+      `translate(${data.getAttribute('x')} ${data.getAttribute('y')})`
+    );
+    expect(np.data.size?.[0]).toBeGreaterThan(5);
+    expect(np.data.size?.[1]).toBeGreaterThan(v.data.size?.[1] ?? 0);
+  });
+
+  test('measures matrices as they are drawn', () => {
+    document.body.innerHTML = '<div></div>';
+    const div = select<HTMLDivElement, string>('div');
+    const root = render(parse('[S [[CAT noun]]]'), div);
+    const x = (sel: string) =>
+      Number(document.querySelector(sel)?.getAttribute('x'));
+    const size = makeConfig({}).style.fontSize.nodeData;
+
+    // With the stub, text is as wide as its length and a line is 1 high.
+    expect(x('text.avm-value') - x('text.avm-attr')).toBeCloseTo(
+      3 + 0.6 * size
+    );
+    expect(root.children?.[0].data.size).toEqual([7 + 1.4 * size, 1]);
+  });
+
+  test('redraws matrices when they change', () => {
+    document.body.innerHTML = '<div></div>';
+    const div = select<HTMLDivElement, string>('div');
+    render(parse('[[CAT noun] dog]'), div);
+    const svg = div.select('svg').node() as SVGSVGElement;
+    rerender(parse('[[CAT noun, NUM pl] dogs]'), svg);
+
+    expect(document.querySelectorAll('g.avm')).toHaveLength(1);
+    expect(document.querySelectorAll('g.avm text.avm-attr')).toHaveLength(2);
+    expect(document.querySelectorAll('text.nodeData')).toHaveLength(1);
+  });
+});
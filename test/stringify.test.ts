@@ -0,0 +1,198 @@
+import { parse } from '../src/parser';
+import { stringify, format } from '../src/stringify';
+import { TreeBuilder, stripSpans } from '../src/tree';
+
+function T(name?: string) {
+  let tb = new TreeBuilder();
+  if (name) {
+    tb = tb.name(name);
+  }
+  return tb;
+}
+
+describe('stringify', () => {
+  test.each(
+    // prettier-ignore
+    [['[]', '[]'],
+     ['[X]', '[X]'],
+     ['[X [X]]', '[X.X]'],
+     ['[X_1^2]', '[X_1^2]'],
+     ['[X^2 [X_1]]', '[X^2.X_1]'],
+     ['[X   data]', '[X data]'],
+     ['[X [Y] [Z]]', '[X [Y] [Z]]'],
+     ['[X *  data]', '[X* data]'],
+     ['[XX [YY.ZZ* more data]]', '[XX.YY.ZZ* more data]'],
+     ['[XX /]', '[XX /]'],
+     ['[X this_data ^ has./punct* ]', '[X this_data ^ has./punct* ]'],
+     ['[X [XX [] [Y [Z data] ] ] [] ]', '[X [XX [] [Y.Z data]] []]'],
+     ['[X [Y.Z [A] [B]]]', '[X.Y.Z [A] [B]]'],
+    ]
+  )("writes '%s' as '%s'", (input, expected) => {
+    expect(stringify(parse(input))).toBe(expected);
+  });
+
+  test.each(
+    // prettier-ignore
+    ['[]',
+      '[X.X]',
+      '[X^2.X_1]',
+      '[X data    data]',
+      '[X data  ]',
+      '[X*X.X data]',
+      '[X [X data] [Y data]]',
+      '[T [NP.N This] [T /] [VP [V is] [NP [D an] [PP.P ex] [N it.]]]]',
+      '[CP [NP_i#wh what] [C did] [VP [V see] [NP ~<>wh.N t_i]]]',
+      '[S [NP{subj} she] [VP{focus c=red}.V#v{x} left]]',
+      '[TP [NP {i she}] [T {sc past}] [NP {s {b she}_i^j}]]',
+      '[N* {i a} and {b {i b} c}]',
+      '[S [NP.N perro | dog] [VP.V ladr-ó | bark-{sc pst} | barked]] | The dog barked.',
+      '[N / | a\\ | \\| | ""]',
+      '[X \\_]',
+      '[X \\_ foo]',
+      '[X \\^ 2]',
+      '[X "_"]',
+      '[X \\ | b]',
+      '[X a\\\\ | b]',
+      '[X a _b c | _d]',
+      '[S [[CAT noun, AGR #1 [NUM sg]] dog] [[HEAD #1, "A B" c d].V ran]]',
+      '[[CAT noun,] [N dog] [[HEAD verb].V ran]]',
+      "[CP [NP#wh what] [C' [C did] [VP [V see] [#wh]]]]",
+      '[TP [TP [VP.V bought] [NP#o books]] [Conj and] [TP [VP.V sold] [#o]]]',
+    ]
+  )("round-trips '%s'", (str) => {
+    const tree = stripSpans(parse(str));
+    expect(stripSpans(parse(stringify(tree)))).toEqual(tree);
+    expect(
+      stripSpans(parse(stringify(tree, { indent: 2, width: 10 })))
+    ).toEqual(tree);
+  });
+
+  test('round-trips built trees', () => {
+    const tree = T('S')
+      .add(
+        T('NP').sub('i').add(T('D').data('the'), T('N').data('dog')),
+        T('VP').add(T('V').sup('+').add(T().data('barked').collapse()))
+      )
+      .build();
+
+    expect(stripSpans(parse(stringify(tree)))).toEqual(tree);
+  });
+
+  test('keeps chains expanded without shorthand', () => {
+    expect(stringify(parse('[X.Y.Z a]'), { shorthand: false })).toBe(
+      '[X [Y [Z a]]]'
+    );
+  });
+
+  test('breaks subtrees which do not fit the width', () => {
+    const tree = parse('[S [NP [D the] [N dog]] [VP [V chased] [NP.N cats]]]');
+
+    expect(stringify(tree, { indent: 2, width: 30 })).toBe(
+      ['[S', '  [NP [D the] [N dog]]', '  [VP [V chased] [NP.N cats]]]'].join(
+        '\n'
+      )
+    );
+    expect(stringify(tree, { indent: '\t', width: 21 })).toBe(
+      [
+        '[S',
+        '\t[NP [D the] [N dog]]',
+        '\t[VP',
+        '\t\t[V chased]',
+        '\t\t[NP.N cats]]]',
+      ].join('\n')
+    );
+  });
+
+  test.each(
+    // prettier-ignore
+    [['untyped content', T().data('a')],
+     ['data and children', T('X').data('a').add(T('Y'))],
+     ['collapsed typed leaf', T('X').data('a').collapse()],
+     ['named untyped node', T().id('a')],
+     ['unnamed shared node', (() => {
+       const shared = T('X');
+       return T('S').add(shared, T('Y').add(shared));
+     })()],
+    ]
+  )('rejects trees with %s', (_, tree) => {
+    expect(() => stringify(tree.build())).toThrow();
+  });
+});
+
+describe('stringify (escapes)', () => {
+  test.each(
+    // prettier-ignore
+    [[T('X Y'), '["X Y"]'],
+     [T('C[+Q]'), '[C\\[+Q\\]]'],
+     [T('X').sub('i j'), '[X_"i j"]'],
+     [T('X').id('a>b'), '[X#a\\>b]'],
+     [T('X').data('a [b]'), '[X a \\[b\\]]'],
+     [T('X').data('*a'), '[X \\*a]'],
+     [T('X').data('/'), '[X \\/]'],
+     [T('X').data(' a'), '[X \\ a]'],
+     [T('X').data(''), '[X ""]'],
+     [T('X').data('a_b c_ {i "d"}'), '[X a\\_b c_ \\{i \\"d\\"\\}]'],
+     [T('X@Y%').data('@a 50% b@c'), '[X\\@Y\\% \\@a 50\\% b@c]'],
+     [T('a,b').data('a, b'), '[a\\,b a, b]'],
+    ]
+  )('escapes %#', (tree, expected) => {
+    const markup = stringify(tree.build());
+    expect(markup).toBe(expected);
+    expect(stripSpans(parse(markup))).toEqual(tree.build());
+  });
+});
+
+describe('stringify (glosses and translations)', () => {
+  test('writes glosses and translations', () => {
+    const tree = T('S')
+      .add(T('N').data('perro').gloss('dog'))
+      .translation('A dog.')
+      .build();
+
+    expect(stringify(tree)).toBe('[S.N perro | dog] | A dog.');
+    expect(stringify(tree, { indent: 2, width: 10 })).toBe(
+      '[S.N perro | dog]\n| A dog.'
+    );
+  });
+
+  test('rejects translations below the root', () => {
+    const tree = T('S').add(T('N').translation('N')).build();
+    expect(() => stringify(tree)).toThrow('Only the root node');
+  });
+});
+
+describe('stringify (formatted data)', () => {
+  test('writes formatting', () => {
+    const tree = T('N')
+      .runs(
+        { text: 'a', italic: true },
+        { text: 'b', italic: true, bold: true },
+        { text: 'c', bold: true },
+        { text: 'i', bold: true, script: 'sub' }
+      )
+      .build();
+    expect(stringify(tree)).toBe('[N {i a{b b}}{b c_i}]');
+  });
+
+  test.each(
+    // prettier-ignore
+    [[T('N').runs({ text: 'a', script: 'sub' })],
+     [T('N').runs({ text: 't' }, { text: 'i', script: 'sub' }, { text: 's' })],
+     [T('N').runs({ text: 't' }, { text: 'i', script: 'sub' }, { text: '\\s' })],
+    ]
+  )('throws on inexpressible data %#', (tree) => {
+    expect(() => stringify(tree.build())).toThrow('can not be expressed');
+  });
+});
+
+describe('format', () => {
+  test('formats markup', () => {
+    expect(format('  [NP [D   the] [AdjP [Adj big]]\n [N dog] ]')).toBe(
+      '[NP [D the] [AdjP.Adj big] [N dog]]'
+    );
+  });
+
+  test('throws on invalid markup', () => {
+    expect(() => format('[NP')).toThrow();
+  });
+});
@@ -0,0 +1,333 @@
+import { parse } from '../src/parser';
+import { renderToString } from '../src/svg';
+import { fontMetrics, measureNode, dataOffset, Measurer } from '../src/measure';
+import { makeConfig } from '../src/config';
+
+function count(svg: string, pattern: RegExp) {
+  return (svg.match(pattern) ?? []).length;
+}
+
+describe('fontMetrics', () => {
+  test('measures ASCII with the metrics table', () => {
+    expect(fontMetrics.width('i', 1, null)).toBeCloseTo(0.222);
+    expect(fontMetrics.width('Wm', 2, null)).toBeCloseTo(3.554);
+    expect(fontMetrics.width('~', 1, null)).toBeCloseTo(0.584);
+  });
+
+  test('measures other characters by width class', () => {
+    expect(fontMetrics.width('∅', 1, null)).toBeCloseTo(0.584);
+    expect(fontMetrics.width('猫', 1, null)).toBeCloseTo(1);
+  });
+});
+
+describe('measureNode', () => {
+  const config = makeConfig();
+
+  test('places leaf data below the node type', () => {
+    const [width, height] = measureNode(parse('[NP_i dog]'), config);
+
+    expect(width).toBeCloseTo(fontMetrics.width('NP', 1, null) + 0.2);
+    expect(height).toBeCloseTo(1.2 * 0.9 + 1.15 * 0.9);
+  });
+
+  test('measures formatted data', () => {
+    const plain = fontMetrics.width('dog', 0.9, null);
+    const size = (markup: string) => measureNode(parse(markup), config)[0];
+
+    expect(size('[N dog]')).toBeCloseTo(plain);
+    expect(size('[N {b dog}]')).toBeCloseTo(1.1 * plain);
+    expect(size('[N {sc Dog}]')).toBeCloseTo(
+      fontMetrics.width('D', 0.9, null) + fontMetrics.width('OG', 0.72, null)
+    );
+    expect(size('[N dog_i]')).toBeCloseTo(
+      plain + fontMetrics.width('i', 0.81, null)
+    );
+  });
+
+  test('stacks glosses beneath the data', () => {
+    const [width, height] = measureNode(
+      parse('[N perro | dog | a long gloss]'),
+      config
+    );
+
+    expect(width).toBeCloseTo(fontMetrics.width('a long gloss', 0.9, null));
+    expect(height).toBeCloseTo(1.2 * 0.9 * 3 + 1.15 * 0.9);
+  });
+
+  test('sizes empty nodes as nothing', () => {
+    expect(measureNode(parse('[]'), config)).toEqual([0, 0]);
+  });
+
+  test('sizes feature structures as laid out', () => {
+    const avm = parse('[[CAT noun, AGR [NUM sg, PER 3]]]');
+    const [width, height] = measureNode(avm, config);
+    const name = (text: string) => fontMetrics.width(text, 0.9, null);
+
+    // Both names and values are aligned in columns, padded within brackets.
+    expect(width).toBeCloseTo(
+      0.72 + name('AGR') + 0.54 + (0.72 + name('NUM') + 0.54 + name('sg'))
+    );
+    expect(height).toBeCloseTo(3 * 1.15 * 0.9);
+  });
+
+  test('places leaf data below feature structures', () => {
+    const [, height] = measureNode(parse('[[CAT noun] dog | gloss]'), config);
+    const line = 1.15 * 0.9;
+
+    expect(height).toBeCloseTo(line + (1.2 - 1) * 0.9 + 1.2 * 0.9 + line);
+    expect(dataOffset(parse('[[CAT noun] dog]'), config)).toBeCloseTo(1.35);
+    expect(dataOffset(parse('[N dog]'), config)).toBe(1.2);
+  });
+});
+
+describe('renderToString', () => {
+  test('renders a standalone SVG', () => {
+    const svg = renderToString(parse('[NP [D the] [N dog]]'));
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" /);
+    expect(svg).toMatch(/<\/svg>$/);
+    expect(svg).toMatch(/viewBox="[-\d. ]+" width="[\d.]+" height="[\d.]+"/);
+    expect(count(svg, /<g class="node"/g)).toBe(3);
+    expect(count(svg, /<line class="link"/g)).toBe(2);
+    expect(count(svg, /<rect /g)).toBe(9);
+  });
+
+  test('draws collapsed leaves as triangles', () => {
+    const svg = renderToString(parse('[NP* the big dog]'));
+    expect(count(svg, /<polygon class="link"/g)).toBe(1);
+  });
+
+  test('writes scripts, spans and escaped text', () => {
+    const svg = renderToString(parse('[X_1^2 a<b & \\"c\\"]'));
+
+    expect(svg).toContain('<tspan font-size="0.9" baseline-shift="sub">1');
+    expect(svg).toContain('baseline-shift="super">2</tspan>');
+    expect(svg).toContain('>a&lt;b &amp; &quot;c&quot;</text>');
+    expect(svg).toContain(
+      '<g class="node" data-start="0" data-end="19" role="treeitem"'
+    );
+  });
+
+  test('draws arrows with unique markers', () => {
+    const tree = parse('[X [Y#a a] [Z ~<>a b]]');
+    const first = renderToString(tree);
+    const second = renderToString(tree);
+    const id = (svg: string) => (svg.match(/marker id="([^"]+)"/) ?? [])[1];
+
+    expect(count(first, /<path class="arrow dashed"/g)).toBe(1);
+    expect(first).toContain(`marker-start="url(#${id(first)})"`);
+    expect(first).toContain(`marker-end="url(#${id(first)})"`);
+    expect(id(first)).not.toBe(id(second));
+  });
+
+  test('writes classes and attributes', () => {
+    const svg = renderToString(parse('[X [Y{a b k=v} c]]'));
+
+    expect(svg).toContain(
+      '<g class="node a b" data-start="3" data-end="17" data-k="v" role='
+    );
+    expect(count(svg, /<line class="link a b"/g)).toBe(1);
+  });
+
+  test('keeps the source span over attributes named like it', () => {
+    const tree = parse('[X [Y{k=v} c]]');
+    tree.children[0].attrs = { start: '9', end: '9', k: 'v' };
+    const svg = renderToString(tree);
+
+    expect(svg).toContain(
+      '<g class="node" data-start="3" data-end="13" data-k="v" role='
+    );
+  });
+
+  test('writes formatted data as tspans', () => {
+    const svg = renderToString(parse('[N {i the} t_i]'));
+
+    expect(svg).toContain('<tspan font-style="italic">the</tspan>');
+    expect(svg).toContain('<tspan> t</tspan>');
+    expect(svg).toContain(
+      '<tspan font-size="0.81" baseline-shift="sub">i</tspan>'
+    );
+  });
+
+  test('writes glosses and translations', () => {
+    const tree = parse('[S [N perro | dog]] | The dog.');
+    const height = (svg: string) =>
+      parseFloat(
+        (svg.match(/viewBox="[-\d.]+ [-\d.]+ [\d.]+ ([\d.]+)/) ?? [])[1]
+      );
+    const svg = renderToString(tree);
+
+    expect(svg).toContain(
+      'class="gloss" data-start="14" data-end="17" dy="2.4em"'
+    );
+    expect(svg).toMatch(/<text [^>]*class="translation"[^>]*>The dog.<\/text>/);
+    expect(height(svg)).toBeGreaterThan(
+      height(renderToString(parse('[S [N perro | dog]]')))
+    );
+  });
+
+  test('draws feature structures in brackets', () => {
+    const svg = renderToString(
+      parse('[S [[AGR #1 [NUM sg]] she] [[SUBJ [AGR #1]] ran]]')
+    );
+
+    expect(count(svg, /<g class="avm"/g)).toBe(2);
+    expect(count(svg, /class="avm-bracket"/g)).toBe(8);
+    expect(count(svg, /<rect class="avm-box"/g)).toBe(2);
+    expect(count(svg, /class="avm-tag"[^>]*>1</g)).toBe(2);
+    expect(svg).toContain('aria-label="[AGR #1 [NUM sg]], she"');
+    const dy = (svg.match(/class="nodeData"[^>]* dy="([\d.]+)em"/) ?? [])[1];
+    expect(parseFloat(dy)).toBeCloseTo(1.35);
+  });
+
+  test('makes room for feature structures', () => {
+    const viewBox = (svg: string) =>
+      (svg.match(/viewBox="([^"]*)"/) ?? [])[1].split(' ').map(parseFloat);
+    const [, , width, height] = viewBox(
+      renderToString(parse('[[CAT noun, AGR [NUM sg]] dog]'))
+    );
+    const [, , plainWidth, plainHeight] = viewBox(
+      renderToString(parse('[N dog]'))
+    );
+
+    expect(width).toBeGreaterThan(plainWidth + 5);
+    expect(height).toBeCloseTo(plainHeight + (1.35 - 1.2 + 2.3 - 1.15) * 0.9);
+  });
+
+  test('applies options', () => {
+    const svg = renderToString(parse('[X a]'), {
+      style: { boxes: false, fontFamily: 'serif', color: { text: 'red' } },
+    });
+
+    expect(count(svg, /<rect /g)).toBe(0);
+    expect(svg).toMatch(
+      /<g class="nodes" [^>]* style="fill: red; font-family: serif">/
+    );
+  });
+
+  test('sizes nodes with the given measurer', () => {
+    const wide: Measurer = {
+      width: (text, size) => 10 * text.length * size,
+      height: (size) => size,
+    };
+    const width = (svg: string) =>
+      parseFloat((svg.match(/viewBox="[-\d.]+ [-\d.]+ ([\d.]+)/) ?? [])[1]);
+    const tree = parse('[X word]');
+
+    expect(width(renderToString(tree, {}, wide))).toBeGreaterThan(
+      width(renderToString(tree))
+    );
+    expect(width(renderToString(tree, {}, wide))).toBeCloseTo(36 + 1.5);
+  });
+});
+
+describe('layout modes', () => {
+  const numbers = (svg: string, pattern: RegExp) => {
+    const found: number[][] = [];
+    let m;
+    while ((m = pattern.exec(svg)) !== null) {
+      found.push(m.slice(1).join(' ').split(/[ ,]/).map(parseFloat));
+    }
+    return found;
+  };
+  const viewBox = (svg: string) => numbers(svg, /viewBox="([^"]+)"/g)[0];
+
+  test('aligns terminals on the bottom level', () => {
+    const tree = parse('[S [NP [N dog]] [V barked]]');
+    const dataY = (svg: string) =>
+      numbers(svg, /y="([-\d.]+)" class="nodeData"/g).map((y) => y[0]);
+    const plain = dataY(renderToString(tree));
+    const aligned = dataY(
+      renderToString(tree, { layout: { alignTerminals: true } })
+    );
+
+    expect(plain[0]).not.toBeCloseTo(plain[1]);
+    expect(aligned[1]).toBeCloseTo(plain[1]);
+    expect(aligned[0]).toBeCloseTo(aligned[1]);
+  });
+
+  test('draws the tree left to right', () => {
+    const svg = renderToString(parse('[S [A a] [B* b]]'), {
+      layout: { orientation: 'left-right' },
+    });
+    const [line] = numbers(
+      svg,
+      /<line class="link" x1="([-\d.]+)" y1="([-\d.]+)" x2="([-\d.]+)" y2="([-\d.]+)"/g
+    );
+    const [[ax, ay, bx, by, cx, cy]] = numbers(svg, /points="([^"]+)"/g);
+
+    expect(line[2]).toBeGreaterThan(line[0]);
+    expect(line[3]).toBeLessThan(line[1]);
+    expect(bx).toBeGreaterThan(ax);
+    expect(cx).toBe(bx);
+    expect(ay).toBeGreaterThan(by);
+    expect(ay).toBeLessThan(cy);
+  });
+
+  test('fits the viewBox to each orientation', () => {
+    const tree = parse('[X [Y#a a] [Z <a b]]');
+    const down = viewBox(renderToString(tree));
+    const right = viewBox(
+      renderToString(tree, { layout: { orientation: 'left-right' } })
+    );
+
+    [down, right].forEach(([x, y, width, height], i) => {
+      const svg = renderToString(tree, {
+        layout: { orientation: i === 0 ? 'top-down' : 'left-right' },
+      });
+      numbers(svg, /class="mBox" x="([-\d.]+)" y="([-\d.]+)"/g).forEach(
+        ([bx, by]) => {
+          expect(bx).toBeGreaterThanOrEqual(x);
+          expect(by).toBeGreaterThanOrEqual(y);
+        }
+      );
+      expect(width).toBeGreaterThan(0);
+      expect(height).toBeGreaterThan(0);
+    });
+    expect(right[2]).toBeGreaterThan(down[2]);
+  });
+
+  test('packs subtrees closer when compact', () => {
+    const tree = parse('[S [A a] [B b] [C c]]');
+    const loose = viewBox(renderToString(tree));
+    const compact = viewBox(
+      renderToString(tree, { layout: { compact: true } })
+    );
+
+    expect(compact[2]).toBeCloseTo(loose[2] - 2 * 0.75);
+    expect(compact[3]).toBeCloseTo(loose[3]);
+  });
+});
+
+describe('multidominance', () => {
+  const svg = renderToString(
+    parse("[CP [NP#wh what] [C' [C did] [VP [V see] [#wh]]]]")
+  );
+  const top = (data: string) =>
+    parseFloat(
+      (svg.match(new RegExp(`y="([\\d.]+)"[^>]*>${data}</text>`)) ?? [])[1]
+    );
+
+  test('draws shared nodes once, beneath their lowest parent', () => {
+    expect(count(svg, /<g class="node"/g)).toBe(6);
+    expect(count(svg, /<line class="link"/g)).toBe(5);
+    expect(top('what')).toBe(top('see'));
+    expect(top('what')).toBeGreaterThan(top('did'));
+  });
+
+  test('routes links from other parents around other nodes', () => {
+    const d = (svg.match(/<path class="link shared" d="([^"]*)"/) ?? [])[1];
+    const points = d.replace(/^M /, '').split(' L ');
+
+    expect(points).toHaveLength(4);
+    expect(points[0]).toBe('0 2.65');
+  });
+
+  test('draws straight links where nothing is in the way', () => {
+    const straight = renderToString(parse('[S [X [A#a x]] [Y [#a]]]'));
+    const d = (straight.match(/<path class="link shared" d="([^"]*)"/) ??
+      [])[1];
+
+    expect(d.split(' L ')).toHaveLength(2);
+  });
+});
@@ -1,7 +1,7 @@
 import path = require('path');
+import webpack = require('webpack');
 
-module.exports = {
-  entry: './src/index.ts',
+const common = {
   devtool: 'inline-source-map',
   mode: process.env.NODE_ENV === 'dev' ? 'development' : 'production',
   module: {
@@ -16,9 +16,28 @@ module.exports = {
   resolve: {
     extensions: ['.tsx', '.ts', '.js'],
   },
-  output: {
-    filename: 'bundle.js',
-    path: path.resolve(__dirname, 'dist'),
-    library: 'chomTree',
-  },
 };
+
+module.exports = [
+  {
+    ...common,
+    entry: './src/index.ts',
+    output: {
+      filename: 'bundle.js',
+      path: path.resolve(__dirname, 'dist'),
+      library: 'chomTree',
+    },
+  },
+  {
+    ...common,
+    entry: './src/cli.ts',
+    target: 'node',
+    output: {
+      filename: 'cli.js',
+      path: path.resolve(__dirname, 'dist'),
+    },
+    plugins: [
+      new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true }),
+    ],
+  },
+];